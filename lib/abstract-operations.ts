@@ -0,0 +1,96 @@
+import type { CheerioAPI, Element } from "cheerio";
+import { assert, loadSpec } from "./utils.js";
+import type {
+  AbstractOperation,
+  AbstractOperationParameter,
+  SpecSource,
+} from "./types.js";
+
+const clauseTypes: { [type: string]: AbstractOperation["type"] } = {
+  "abstract operation": "abstract-operation",
+  "host-defined abstract operation": "host-defined-abstract-operation",
+  "implementation-defined abstract operation":
+    "implementation-defined-abstract-operation",
+  "concrete method": "concrete-method",
+  "internal method": "internal-method",
+  "numeric method": "numeric-method",
+  sdo: "syntax-directed-operation",
+};
+
+function normalize(text: string): string {
+  return text.replace(/\s+/gu, " ").trim();
+}
+
+// Structured headers look like:
+// ToPropertyKey (
+//   _argument_: an ECMAScript language value,
+//   optional _hint_: ~string~ or ~number~,
+// ): either a normal completion containing a property key or a throw completion
+function parseHeader(
+  header: string,
+): Pick<AbstractOperation, "name" | "parameters" | "returnType"> {
+  const open = header.indexOf("(");
+  assert(open !== -1, `No parameter list in ${normalize(header)}`);
+  let depth = 0;
+  let close = open;
+  for (; close < header.length; close++) {
+    if (header[close] === "(") depth++;
+    else if (header[close] === ")" && --depth === 0) break;
+  }
+  assert(depth === 0, `Unbalanced parameter list in ${normalize(header)}`);
+  const parameterList = header.slice(open + 1, close);
+  const parameterLines = parameterList.includes("\n")
+    ? parameterList.split("\n")
+    : parameterList.split(",");
+  const parameters = parameterLines
+    .map((line) => line.trim().replace(/,$/u, ""))
+    .filter(Boolean)
+    .map((param): AbstractOperationParameter => {
+      const { optional, name, type } = param.match(
+        /^(?<optional>optional )?_(?<name>\w+)_(?:: (?<type>.*))?$/u,
+      )?.groups ?? { name: param };
+      return { name: name!, type, optional: Boolean(optional) };
+    });
+  const returnType = header.slice(close + 1).match(/^\s*:(?<type>[^]*)$/u)
+    ?.groups!.type;
+  return {
+    name: normalize(header.slice(0, open)).replace(
+      /^(?:Static|Runtime) Semantics: /u,
+      "",
+    ),
+    parameters,
+    returnType: returnType && normalize(returnType),
+  };
+}
+
+function getHeaderField($: CheerioAPI, el: Element, field: string) {
+  const dd = $(el)
+    .children("dl.header")
+    .children("dt")
+    .filter((_, dt) => $(dt).text().trim() === field)
+    .next("dd");
+  return dd.length ? normalize(dd.text()) : undefined;
+}
+
+export function collectAbstractOperations(
+  spec: SpecSource,
+): AbstractOperation[] {
+  const $ = loadSpec(spec);
+  return $("emu-clause[type]")
+    .get()
+    .filter((el) => $(el).attr("type")! in clauseTypes)
+    .map((el) => {
+      const { name, parameters, returnType } = parseHeader(
+        $(el).children("h1").text(),
+      );
+      return {
+        type: clauseTypes[$(el).attr("type")!]!,
+        name,
+        id: $(el).attr("id")!,
+        for: getHeaderField($, el, "for"),
+        parameters,
+        returnType,
+        description: getHeaderField($, el, "description"),
+      };
+    });
+}
@@ -0,0 +1,313 @@
+import type { AnyNode, Cheerio, CheerioAPI, Element } from "cheerio";
+import { getMembers } from "./query.js";
+import { loadSpec } from "./utils.js";
+import type {
+  AbstractOperation,
+  AlgorithmStep,
+  Algorithms,
+  JSGlobal,
+  SpecSource,
+  ThrownError,
+} from "./types.js";
+
+function toLetters(n: number): string {
+  return (
+    (n > 26 ? toLetters(Math.floor((n - 1) / 26)) : "") +
+    String.fromCharCode(97 + ((n - 1) % 26))
+  );
+}
+
+function toRoman(n: number): string {
+  const numerals: [number, string][] = [
+    [10, "x"],
+    [9, "ix"],
+    [5, "v"],
+    [4, "iv"],
+    [1, "i"],
+  ];
+  let rest = n;
+  let result = "";
+  for (const [value, numeral] of numerals)
+    for (; rest >= value; rest -= value) result += numeral;
+  return result;
+}
+
+// Like ecmarkup, which numbers nested steps 1, a, i, 1, a, i, ...
+function formatNumber(parent: string | undefined, index: number): string {
+  const depth = parent === undefined ? 0 : parent.split(".").length;
+  const format = [String, toLetters, toRoman][depth % 3]!;
+  const own = format(index + 1);
+  return parent === undefined ? own : `${parent}.${own}`;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/gu, " ").trim();
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+// Well-known symbols, such as %Symbol.iterator%, aren't intrinsics
+const intrinsicPattern = /%(?!Symbol\.)[\w.]+%/gu;
+// The source leaves operations for ecmarkup to link, and marks variables
+// with underscores instead of <var>
+const operationPattern = /\b(?<name>[A-Z]\w*)\(/gu;
+const variablePattern = /(?<![\w*])_(?<name>[A-Za-z][A-Za-z0-9]*)_(?!\w)/gu;
+
+// `node` is the step's own content in a built spec
+function makeStep(
+  $: CheerioAPI,
+  number: string,
+  text: string,
+  node?: Cheerio<Element>,
+): AlgorithmStep {
+  const marker = /^Assert:/u.test(text)
+    ? "assertion"
+    : /^NOTE:/u.test(text)
+    ? "note"
+    : undefined;
+  return {
+    number,
+    text,
+    marker,
+    operations: unique([
+      ...(node
+        ?.find("emu-xref[aoid]")
+        .map((_, x) => $(x).attr("aoid")!)
+        .get() ?? []),
+      ...[...text.matchAll(operationPattern)].map((m) => m.groups!.name!),
+    ]),
+    variables: unique([
+      ...(node
+        ?.find("var")
+        .map((_, v) => $(v).text())
+        .get() ?? []),
+      ...[...text.matchAll(variablePattern)].map((m) => m.groups!.name!),
+    ]),
+    intrinsics: unique([...text.matchAll(intrinsicPattern)].map((m) => m[0])),
+    steps: [],
+  };
+}
+
+type SourceLine = { indent: number; text: string };
+
+// The source writes steps as an indented list:
+//   1. If _x_ is *undefined*, then
+//     1. Throw a *TypeError* exception.
+function parseSourceSteps(
+  $: CheerioAPI,
+  lines: SourceLine[],
+  parent?: string,
+): AlgorithmStep[] {
+  const steps: AlgorithmStep[] = [];
+  lines.forEach((line, i) => {
+    if (line.indent !== lines[0]!.indent) return;
+    const end = lines.findIndex((l, j) => j > i && l.indent <= line.indent);
+    const step = makeStep($, formatNumber(parent, steps.length), line.text);
+    step.steps = parseSourceSteps(
+      $,
+      lines.slice(i + 1, end === -1 ? undefined : end),
+      step.number,
+    );
+    steps.push(step);
+  });
+  return steps;
+}
+
+function getSourceLines(source: string): SourceLine[] {
+  const lines: SourceLine[] = [];
+  for (const line of source.split("\n")) {
+    const match = /^(?<indent>\s*)(?:\d+\.|\*) (?<text>.*)$/u.exec(line);
+    if (match) {
+      lines.push({
+        indent: match.groups!.indent!.length,
+        // E.g. `[id="step-array-sort-length"]`
+        text: normalize(
+          match.groups!.text!.replace(
+            /^\[[\w-]+="[^"]*"(?:, *[\w-]+="[^"]*")*\]/u,
+            "",
+          ),
+        ),
+      });
+    } else if (lines.length && line.trim()) {
+      // Continuation of a long step
+      lines.at(-1)!.text += ` ${line.trim()}`;
+    }
+  }
+  return lines;
+}
+
+// Built specs have nested <ol>s instead
+function parseListSteps(
+  $: CheerioAPI,
+  list: Cheerio<Element>,
+  parent?: string,
+): AlgorithmStep[] {
+  return list
+    .children("li")
+    .get()
+    .map((li, index) => {
+      const number = formatNumber(parent, index);
+      const own = $(li).clone();
+      own.children("ol").remove();
+      const step = makeStep($, number, normalize(own.text()), own);
+      step.steps = parseListSteps($, $(li).children("ol").first(), number);
+      return step;
+    });
+}
+
+/** Parses an `<emu-alg>` of either the source or a built spec */
+export function parseAlgorithm(
+  $: CheerioAPI,
+  alg: Cheerio<AnyNode>,
+): AlgorithmStep[] {
+  const list = alg.children("ol");
+  return list.length
+    ? parseListSteps($, list.first())
+    : parseSourceSteps($, getSourceLines(alg.text()));
+}
+
+/**
+ * The steps of every global function, method, constructor and accessor in
+ * `intrinsics` that has some, keyed by its ID. Constructors have their steps
+ * in their first subsection. Entries merged from other documents, such as
+ * proposals or ECMA-402, are looked up in `documents`, which is keyed by the
+ * prefix of their IDs.
+ */
+export function collectAlgorithms(
+  intrinsics: JSGlobal[],
+  spec: SpecSource,
+  documents: { [idPrefix: string]: SpecSource } = {},
+): Algorithms {
+  const sources = [
+    ...Object.entries(documents).map(
+      ([prefix, document]) => [prefix, loadSpec(document)] as const,
+    ),
+    ["", loadSpec(spec)] as const,
+  ];
+  const algorithms: Algorithms = {};
+  const entries = intrinsics.flatMap((g) => [
+    g,
+    ...getMembers(g).map(({ member }) => member),
+  ]);
+  for (const { id, type } of entries) {
+    if (id in algorithms) continue;
+    const [prefix, $] = sources.find(([prefix]) => id.startsWith(prefix))!;
+    const section = $(`[id="${id.slice(prefix.length)}"]`);
+    const alg = (
+      type === "constructor" ? section.children("emu-clause").first() : section
+    ).children("emu-alg");
+    if (alg.length) algorithms[id] = parseAlgorithm($, alg.first());
+  }
+  return algorithms;
+}
+
+/**
+ * The steps of each abstract operation, by name. Operations that share a name,
+ * such as the concrete methods of Environment Records, share an entry.
+ */
+export function collectOperationSteps(
+  abstractOperations: AbstractOperation[],
+  spec: SpecSource,
+): Map<string, AlgorithmStep[]> {
+  const $ = loadSpec(spec);
+  const steps = new Map<string, AlgorithmStep[]>();
+  for (const { name, id } of abstractOperations) {
+    steps.set(name, [
+      ...(steps.get(name) ?? []),
+      ...parseAlgorithm($, $(`[id="${id}"]`).children("emu-alg").first()),
+    ]);
+  }
+  return steps;
+}
+
+export function flattenSteps(steps: AlgorithmStep[]): AlgorithmStep[] {
+  return steps.flatMap((step) => [step, ...flattenSteps(step.steps)]);
+}
+
+// `throw a *TypeError* exception`, or `ThrowCompletion(a newly created
+// *RangeError* object)`
+const throwPattern =
+  /\bthrow an? \*?(?<type>\w*Error)\*? exception|ThrowCompletion\(a newly created \*?(?<completion>\w*Error)\*? object\)/giu;
+// Only calls with `?` can return abrupt completions
+const callPattern = /\?\s*(?<name>[A-Z]\w*)\s*\(/gu;
+const conditionPattern = /^(?:If|Else|Otherwise)\b/u;
+
+function getThrownTypes(step: AlgorithmStep): string[] {
+  return [...step.text.matchAll(throwPattern)].map(
+    (m) => (m.groups!.type ?? m.groups!.completion)!,
+  );
+}
+
+function getCalledOperations(step: AlgorithmStep): string[] {
+  return unique(
+    [...step.text.matchAll(callPattern)].map((call) => call.groups!.name!),
+  );
+}
+
+// `If IsCallable(_fn_) is *false*, throw ...` is under `If IsCallable(_fn_)
+// is *false*`, and the nested steps of `Else, ...` are under `Else`
+function getCondition(
+  step: AlgorithmStep,
+  parent: AlgorithmStep | undefined,
+): string | undefined {
+  const own = /^(?<clause>.*?),? throw\b/iu.exec(step.text)?.groups!.clause;
+  if (own && conditionPattern.test(own)) return own;
+  if (!parent || !conditionPattern.test(parent.text)) return undefined;
+  return parent.text.replace(/,?(?: then)?\.?$/u, "");
+}
+
+/**
+ * Returns a function that lists what the steps of a built-in throw, looking
+ * up the steps of the abstract operations they call in `operations`.
+ */
+export function createThrowsCollector(
+  operations: Map<string, AlgorithmStep[]>,
+): (steps: AlgorithmStep[]) => ThrownError[] {
+  // Every error type each operation can throw, directly or not. Recursive
+  // operations depend on each other's results, so they are recomputed until
+  // none of them grows
+  const operationThrows = new Map<string, Set<string>>();
+  const operationSteps = [...operations].map(([name, steps]) => ({
+    name,
+    steps: flattenSteps(steps).map((step) => ({
+      types: getThrownTypes(step),
+      called: getCalledOperations(step),
+    })),
+  }));
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const { name, steps } of operationSteps) {
+      const types = new Set<string>();
+      for (const step of steps) {
+        for (const type of step.types) types.add(type);
+        for (const called of step.called)
+          for (const type of operationThrows.get(called) ?? []) types.add(type);
+      }
+      if (types.size !== (operationThrows.get(name)?.size ?? 0)) changed = true;
+      operationThrows.set(name, types);
+    }
+  }
+
+  return function collect(steps, parent?: AlgorithmStep): ThrownError[] {
+    return steps.flatMap((step) => {
+      const condition = getCondition(step, parent);
+      const direct = getThrownTypes(step).map((type) => ({
+        type,
+        step: step.number,
+        condition,
+        via: undefined,
+      }));
+      const indirect = getCalledOperations(step).flatMap((name) =>
+        [...(operationThrows.get(name) ?? [])].map((type) => ({
+          type,
+          step: step.number,
+          condition,
+          via: name,
+        })),
+      );
+      return [...direct, ...indirect, ...collect(step.steps, step)];
+    });
+  };
+}
@@ -0,0 +1,93 @@
+import { flattenSteps } from "./algorithms.js";
+import { getMemberPath, getMembers } from "./query.js";
+import type {
+  AlgorithmStep,
+  Algorithms,
+  CallGraph,
+  CallGraphEntry,
+  JSGlobal,
+} from "./types.js";
+
+// Only names of known operations count, not other calls such as `Type(x)`
+// in older editions
+function getCalls(steps: AlgorithmStep[], known: Set<string>): string[] {
+  const names = flattenSteps(steps).flatMap((step) => step.operations);
+  return [...new Set(names)].filter((name) => known.has(name));
+}
+
+/**
+ * Links the built-ins in `intrinsics` to the abstract operations their
+ * `algorithms` call, following `operationSteps` for the operations those
+ * call in turn.
+ */
+export function buildCallGraph(
+  intrinsics: JSGlobal[],
+  algorithms: Algorithms,
+  operationSteps: Map<string, AlgorithmStep[]>,
+): CallGraph {
+  const known = new Set(operationSteps.keys());
+  const operations = Object.fromEntries(
+    [...operationSteps].map(([name, steps]) => [name, getCalls(steps, known)]),
+  );
+  const builtIns = intrinsics.flatMap((g): CallGraphEntry[] => {
+    const entries = [
+      ...(g.type === "function" ? [{ path: g.name, id: g.id }] : []),
+      ...getMembers(g)
+        .filter(
+          ({ member }) =>
+            member.type === "method" || member.type === "constructor",
+        )
+        .map(({ member }) => ({
+          path: getMemberPath(g, member),
+          id: member.id,
+        })),
+    ];
+    return entries.map(({ path, id }) => {
+      const calls = getCalls(algorithms[id] ?? [], known);
+      const reached = new Set(calls);
+      // Sets iterate over what's added during the loop, and only add each
+      // operation once, so this terminates for recursive operations too
+      for (const name of reached)
+        for (const callee of operations[name] ?? []) reached.add(callee);
+      return {
+        path,
+        id,
+        calls,
+        indirectCalls: [...reached].filter((name) => !calls.includes(name)),
+      };
+    });
+  });
+  const usedBy: CallGraph["usedBy"] = {};
+  const getUses = (name: string) =>
+    (usedBy[name] ??= { direct: [], indirect: [] });
+  for (const { path, calls, indirectCalls } of builtIns) {
+    for (const name of calls) getUses(name).direct.push(path);
+    for (const name of indirectCalls) getUses(name).indirect.push(path);
+  }
+  return { builtIns, operations, usedBy };
+}
+
+/**
+ * The graph in Graphviz's DOT language, with built-ins as boxes and abstract
+ * operations as ellipses.
+ */
+export function formatCallGraphDOT(graph: CallGraph): string {
+  const quote = (name: string) => JSON.stringify(name);
+  const edges = [
+    ...graph.builtIns.flatMap(({ path, calls }) =>
+      calls.map((name) => `  ${quote(path)} -> ${quote(name)};`),
+    ),
+    ...Object.entries(graph.operations).flatMap(([caller, calls]) =>
+      calls.map((name) => `  ${quote(caller)} -> ${quote(name)};`),
+    ),
+  ];
+  return [
+    "digraph calls {",
+    "  rankdir=LR;",
+    "  node [shape=ellipse];",
+    ...graph.builtIns.map(({ path }) => `  ${quote(path)} [shape=box];`),
+    ...edges,
+    "}",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+import { runCLI } from "./commands.js";
+
+const { stdout, stderr, exitCode } = await runCLI(process.argv.slice(2));
+if (stdout) console.log(stdout);
+if (stderr) console.error(stderr);
+process.exitCode = exitCode;
@@ -0,0 +1,395 @@
+import { parseArgs } from "node:util";
+import {
+  getCallGraph,
+  getEarlyErrors,
+  getIntrinsicsIndex,
+  getSpecURL,
+  getTOC,
+  type IntrinsicsIndex,
+} from "./index.js";
+import type {
+  CallGraph,
+  EarlyErrors,
+  JSGlobal,
+  JSMemberEntry,
+  JSMemberKind,
+  Parameters,
+  Section,
+  StatusTag,
+  ThrownError,
+} from "./types.js";
+
+/** Where the commands read the scraped data from */
+export type CLIData = {
+  getIntrinsicsIndex: () => Promise<IntrinsicsIndex>;
+  getTOC: () => Promise<Section[]>;
+  getSpecURL: (id: string) => Promise<string | undefined>;
+  getEarlyErrors: () => Promise<EarlyErrors>;
+  getCallGraph: () => Promise<CallGraph>;
+};
+
+export type CLIResult = { stdout: string; stderr: string; exitCode: number };
+
+const usage = `Usage: es-scraper <command> [options]
+
+Commands:
+  show <path>                Describe a global or member, e.g. Array.prototype.at
+  list [--members]           List globals, or members with --members
+       [--global] [--annex-b] [--legacy] [--normative-optional]
+       [--kind <kind>]
+  early-errors <Nonterminal> Print the early error rules of a production
+  toc <id>                   Show where a section sits in the spec
+  used-by <Operation>        List the built-ins that call an abstract operation
+
+Options:
+  --json                     Print JSON instead of text`;
+
+function parseOptions(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      json: { type: "boolean", default: false },
+      // For list
+      members: { type: "boolean", default: false },
+      global: { type: "boolean" },
+      "annex-b": { type: "boolean" },
+      legacy: { type: "boolean" },
+      "normative-optional": { type: "boolean" },
+      kind: { type: "string" },
+    },
+  });
+}
+
+/** The data, the options and the output of a command */
+type Session = {
+  data: CLIData;
+  options: ReturnType<typeof parseOptions>["values"];
+  stdout: string[];
+  stderr: string[];
+  exitCode: number;
+};
+
+const memberKinds: JSMemberKind[] = [
+  "constructor",
+  "static",
+  "prototype",
+  "instance",
+];
+
+function formatParameters(parameters: Parameters): string {
+  return parameters.list
+    .map((p) => {
+      if (p.rest) return `...${p.name}`;
+      return p.optional ? `[${p.name}]` : p.name;
+    })
+    .join(", ");
+}
+
+// E.g. `prototype accessor property`
+function describeMember({ kind, member }: JSMemberEntry): string {
+  if (member.type === "constructor") return "constructor";
+  return `${kind} ${member.type.replace("-", " ")}`;
+}
+
+function formatFields(title: string, fields: [string, unknown][]): string {
+  return [
+    title,
+    ...fields
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `  ${name}: ${String(value) || "(none)"}`),
+  ].join("\n");
+}
+
+// E.g. `TypeError, RangeError`, or `TypeError (via ToNumber)` for errors that
+// the operations it calls throw
+function formatThrows(throws: ThrownError[], indirect: boolean): string {
+  const types = throws
+    .filter((t) => (t.via !== undefined) === indirect)
+    .map((t) => (indirect ? `${t.type} (via ${t.via})` : t.type));
+  return [...new Set(types)].join(", ");
+}
+
+// E.g. `Annex B, legacy`
+function describeStatus({
+  annexB,
+  legacy,
+  normativeOptional,
+}: StatusTag): string | undefined {
+  const parts = [
+    annexB && "Annex B",
+    legacy && "legacy",
+    normativeOptional && "normative optional",
+  ].filter(Boolean);
+  return parts.length ? parts.join(", ") : undefined;
+}
+
+function formatEntry(entry: JSGlobal | JSMemberEntry, url: string | undefined) {
+  if ("member" in entry) {
+    const { member } = entry;
+    const callable = member.type === "method" || member.type === "constructor";
+    return formatFields(entry.path, [
+      ["Kind", describeMember(entry)],
+      ["Owner", entry.owner.name],
+      [
+        "Parameters",
+        callable ? formatParameters(member.parameters) : undefined,
+      ],
+      [
+        "Length",
+        callable ? member.length ?? member.parameters.required : undefined,
+      ],
+      [
+        "Attributes",
+        // Methods without an attributes paragraph have the default ones
+        member.type === "method"
+          ? member.attributes ?? "wc"
+          : "attributes" in member
+          ? member.attributes
+          : undefined,
+      ],
+      ["Usage", member.type === "constructor" ? member.usage : undefined],
+      ["Throws", callable ? formatThrows(member.throws, false) : undefined],
+      [
+        "Throws indirectly",
+        callable ? formatThrows(member.throws, true) : undefined,
+      ],
+      [
+        "Brand check",
+        member.type === "method" && entry.kind === "prototype"
+          ? member.brandCheck === null
+            ? "(generic)"
+            : member.brandCheck ?? "(not found)"
+          : undefined,
+      ],
+      ["Status", describeStatus(member)],
+      ["Proposal", member.proposal],
+      ["Spec", url],
+    ]);
+  }
+  return formatFields(entry.name, [
+    ["Kind", entry.type],
+    ["Global", entry.type === "global-property" || entry.global],
+    [
+      "Parameters",
+      entry.type === "function"
+        ? formatParameters(entry.parameters)
+        : undefined,
+    ],
+    ["Extends", entry.type === "class" ? entry.extends : undefined],
+    [
+      "Constructor",
+      entry.type === "class" && entry.ctor
+        ? `${entry.ctor.name.replace(
+            /\(\)$/u,
+            `(${formatParameters(entry.ctor.parameters)})`,
+          )}, ${entry.ctor.usage}`
+        : undefined,
+    ],
+    [
+      "Internal slots",
+      entry.type === "class"
+        ? entry.internalSlots.map((slot) => slot.name).join(", ")
+        : undefined,
+    ],
+    [
+      "Attributes",
+      entry.type === "global-property"
+        ? entry.attributes
+        : entry.type === "function"
+        ? "wc"
+        : undefined,
+    ],
+    ["Status", describeStatus(entry)],
+    ["Proposal", entry.proposal],
+    ["Spec", url],
+  ]);
+}
+
+// The sections from the top of the spec down to the one with `id`
+function findSectionPath(sections: Section[], id: string): Section[] {
+  for (const section of sections) {
+    if (section.id === id) return [section];
+    const path = findSectionPath(section.children, id);
+    if (path.length) return [section, ...path];
+  }
+  return [];
+}
+
+function print(session: Session, json: unknown, text: () => string): void {
+  session.stdout.push(
+    session.options.json ? JSON.stringify(json, null, 2) : text(),
+  );
+}
+
+function fail(session: Session, message: string): void {
+  session.stderr.push(message);
+  session.exitCode = 1;
+}
+
+async function show(session: Session, path: string) {
+  const index = await session.data.getIntrinsicsIndex();
+  // Constructors have the path of their class, which is shown instead
+  const entry = index.getGlobal(path) ?? index.getMember(path);
+  if (!entry) {
+    fail(session, `No global or member found for ${path}`);
+    return;
+  }
+  const url = await session.data.getSpecURL(
+    "member" in entry ? entry.member.id : entry.id,
+  );
+  print(
+    session,
+    "member" in entry
+      ? { ...entry, owner: entry.owner.name, url }
+      : { ...entry, url },
+    () => formatEntry(entry, url),
+  );
+}
+
+async function list(session: Session) {
+  const { options } = session;
+  const index = await session.data.getIntrinsicsIndex();
+  const kind = options.kind as JSMemberKind | undefined;
+  if (kind !== undefined && !memberKinds.includes(kind)) {
+    fail(session, `--kind must be one of ${memberKinds.join(", ")}`);
+    return;
+  }
+  const flags = {
+    ...(options.global !== undefined && { global: options.global }),
+    ...(options["annex-b"] !== undefined && { annexB: options["annex-b"] }),
+    ...(options.legacy !== undefined && { legacy: options.legacy }),
+    ...(options["normative-optional"] !== undefined && {
+      normativeOptional: options["normative-optional"],
+    }),
+  };
+  if (options.members || kind) {
+    const members = index.members({ ...flags, ...(kind && { kind }) });
+    print(
+      session,
+      members.map(({ path, kind: k, member }) => ({ path, kind: k, member })),
+      () => members.map((e) => `${e.path} (${describeMember(e)})`).join("\n"),
+    );
+  } else {
+    const globals = index.globals(flags);
+    print(session, globals, () =>
+      globals.map((g) => `${g.name} (${g.type})`).join("\n"),
+    );
+    // Most of what Annex B and legacy clauses define are members
+    if (options["annex-b"] || options.legacy || options["normative-optional"]) {
+      session.stderr.push(
+        "Only globals are listed; add --members to list the members instead.",
+      );
+    }
+  }
+}
+
+async function earlyErrors(session: Session, nonterminal: string) {
+  const rules = (await session.data.getEarlyErrors())[nonterminal];
+  if (!rules) {
+    fail(session, `No early errors found for ${nonterminal}`);
+    return;
+  }
+  print(session, rules, () =>
+    Object.entries(rules)
+      .map(([rhs, texts]) =>
+        [
+          `${nonterminal} : ${rhs}`,
+          ...texts.map((t) => `  - ${t.replace(/\s+/gu, " ")}`),
+        ].join("\n"),
+      )
+      .join("\n\n"),
+  );
+}
+
+async function toc(session: Session, id: string) {
+  const path = findSectionPath(await session.data.getTOC(), id);
+  const section = path.at(-1);
+  if (!section) {
+    fail(session, `No section found with ID ${id}`);
+    return;
+  }
+  const url = await session.data.getSpecURL(id);
+  const strip = ({ title, id: sectionID }: Section) => ({
+    title,
+    id: sectionID,
+  });
+  print(
+    session,
+    { path: path.map(strip), children: section.children.map(strip), url },
+    () =>
+      [
+        ...path.map((s, i) => `${"  ".repeat(i)}${s.title} (#${s.id})`),
+        ...section.children.map(
+          (s) => `${"  ".repeat(path.length)}${s.title} (#${s.id})`,
+        ),
+        ...(url ? ["", url] : []),
+      ].join("\n"),
+  );
+}
+
+async function usedBy(session: Session, operation: string) {
+  const uses = (await session.data.getCallGraph()).usedBy[operation];
+  if (!uses) {
+    fail(session, `No built-ins found that call ${operation}`);
+    return;
+  }
+  print(session, uses, () =>
+    [
+      ...uses.direct,
+      ...uses.indirect.map((path) => `${path} (indirectly)`),
+    ].join("\n"),
+  );
+}
+
+/**
+ * Runs a command with the arguments it was given, e.g. `["show", "Map"]`.
+ * Without `data`, it reads the data that this package was built with.
+ */
+export async function runCLI(
+  args: string[],
+  data: CLIData = {
+    getIntrinsicsIndex,
+    getTOC,
+    getSpecURL,
+    getEarlyErrors,
+    getCallGraph,
+  },
+): Promise<CLIResult> {
+  const { values: options, positionals } = parseOptions(args);
+  const session: Session = {
+    data,
+    options,
+    stdout: [],
+    stderr: [],
+    exitCode: 0,
+  };
+  const [command, arg, ...rest] = positionals;
+  if (command === "list" && !arg) {
+    await list(session);
+  } else if (command && arg && !rest.length) {
+    switch (command) {
+      case "show":
+        await show(session, arg);
+        break;
+      case "early-errors":
+        await earlyErrors(session, arg);
+        break;
+      case "toc":
+        await toc(session, arg);
+        break;
+      case "used-by":
+        await usedBy(session, arg);
+        break;
+      default:
+        fail(session, usage);
+    }
+  } else {
+    fail(session, usage);
+  }
+  return {
+    stdout: session.stdout.join("\n"),
+    stderr: session.stderr.join("\n"),
+    exitCode: session.exitCode,
+  };
+}
@@ -0,0 +1,368 @@
+import VM from "node:vm";
+import { getMemberPath, normalizePath } from "./query.js";
+import type {
+  ConformanceResult,
+  JSGlobal,
+  JSMember,
+  JSPropertyKey,
+} from "./types.js";
+
+type ProbeRequest = {
+  /** Expression evaluating to the object to inspect */
+  target: string;
+  /** Inspect this own property of the target */
+  key?: JSPropertyKey;
+  /** Compare the target's [[Prototype]] with this expression */
+  prototypeOf?: string;
+};
+
+type Observation =
+  | { found: false }
+  | { found: true; length: number | undefined }
+  | { found: true; prototypeMatches: boolean }
+  | { found: true; hasProperty: false }
+  | {
+      found: true;
+      hasProperty: true;
+      attributes: string;
+      length: number | undefined;
+    };
+
+type Expectation = {
+  path: string;
+  request: ProbeRequest;
+  attributes?: string;
+  length?: number;
+  extends?: string;
+  /** Whether the target is an instance the probe has to construct */
+  instance?: true;
+  /**
+   * Checks whose expected value is the scraper's fallback for when the spec
+   * says nothing, rather than something the spec states
+   */
+  inferred?: { attributes?: true; length?: true };
+};
+
+// Intrinsics that aren't reachable by name from the global object
+const intrinsicExpressions: { [name: string]: string } = {
+  TypedArray: "Object.getPrototypeOf(Int8Array)",
+  IteratorPrototype:
+    "Object.getPrototypeOf(Object.getPrototypeOf([][Symbol.iterator]()))",
+  AsyncIteratorPrototype:
+    "Object.getPrototypeOf(Object.getPrototypeOf((async function* () {}).prototype))",
+  ArrayIteratorPrototype: "Object.getPrototypeOf([][Symbol.iterator]())",
+  GeneratorFunction: "Object.getPrototypeOf(function* () {}).constructor",
+  AsyncGeneratorFunction:
+    "Object.getPrototypeOf(async function* () {}).constructor",
+  AsyncFunction: "Object.getPrototypeOf(async function () {}).constructor",
+  Generator: "Object.getPrototypeOf(function* () {})",
+  AsyncGenerator: "Object.getPrototypeOf(async function* () {})",
+  GeneratorPrototype: "Object.getPrototypeOf(function* () {}).prototype",
+  AsyncGeneratorPrototype:
+    "Object.getPrototypeOf(async function* () {}).prototype",
+};
+
+// Instances of classes that can't be constructed without arguments, or whose
+// instances are usually created with a literal. Others are created with
+// `new C()`.
+const instanceExpressions: { [name: string]: string } = {
+  Array: "[]",
+  String: 'new String("")',
+  Function: "(function () {})",
+  RegExp: "/(?:)/",
+  AsyncFunction: "(async function () {})",
+  GeneratorFunction: "(function* () {})",
+  AsyncGeneratorFunction: "(async function* () {})",
+};
+
+// Runs inside the engine under test, so it must be self-contained
+function probe(requests: ProbeRequest[]): string {
+  const evaluate = (expression: string): unknown => {
+    try {
+      // eslint-disable-next-line no-eval
+      return (0, eval)(expression);
+    } catch {
+      return undefined;
+    }
+  };
+  return JSON.stringify(
+    requests.map((request) => {
+      const target = evaluate(request.target) as object | undefined;
+      if (target === undefined || target === null) return { found: false };
+      if (request.prototypeOf !== undefined) {
+        return {
+          found: true,
+          prototypeMatches:
+            Object.getPrototypeOf(target) === evaluate(request.prototypeOf),
+        };
+      }
+      if (!request.key) {
+        return {
+          found: true,
+          length: typeof target === "function" ? target.length : undefined,
+        };
+      }
+      const desc = Object.getOwnPropertyDescriptor(
+        target,
+        request.key.kind === "symbol"
+          ? (Symbol[request.key.wellKnown as keyof SymbolConstructor] as symbol)
+          : request.key.value,
+      );
+      if (!desc) return { found: true, hasProperty: false };
+      return {
+        found: true,
+        hasProperty: true,
+        attributes: [
+          desc.writable ? "w" : "",
+          desc.get ? "g" : "",
+          desc.set ? "s" : "",
+          desc.enumerable ? "e" : "",
+          desc.configurable ? "c" : "",
+        ].join(""),
+        length:
+          typeof desc.value === "function" ? desc.value.length : undefined,
+      };
+    }),
+  );
+}
+
+/** Returns undefined if the path starts with an unknown intrinsic */
+function toExpression(path: string): string | undefined {
+  const [root, ...rest] = normalizePath(path.replace(/\(\)$/u, "")).split(".");
+  const base =
+    intrinsicExpressions[root!] ??
+    (/^[A-Z$_a-z][\w$]*$/u.test(root!) ? `globalThis.${root!}` : undefined);
+  return base && [`(${base})`, ...rest].join(".");
+}
+
+function formatKey(key: JSPropertyKey): string {
+  return key.kind === "symbol" ? `[Symbol.${key.wellKnown}]` : `.${key.value}`;
+}
+
+function expectMember(
+  member: Exclude<JSMember, { type: "constructor" }>,
+): Pick<Expectation, "attributes" | "length" | "inferred"> {
+  if (member.type === "method") {
+    return {
+      attributes: member.attributes ?? "wc",
+      length: member.length ?? member.parameters.required,
+      inferred: {
+        ...(member.attributes === undefined && { attributes: true }),
+        ...(member.length === undefined && { length: true }),
+      },
+    };
+  }
+  return {
+    attributes: member.attributes,
+    // `wc` is also what data properties get without an attributes paragraph
+    ...(member.type === "data-property" &&
+      member.attributes === "wc" && { inferred: { attributes: true } }),
+  };
+}
+
+// Whether the attributes are those of an accessor property
+const isAccessor = (attributes: string) => /[gs]/u.test(attributes);
+
+function getExpectations(intrinsics: JSGlobal[]): Expectation[] {
+  const expectations: Expectation[] = [];
+  for (const g of intrinsics) {
+    const name = g.name.replace(/\(\)$/u, "");
+    if (g.type === "function" || g.type === "global-property" || g.global) {
+      expectations.push({
+        path: `globalThis.${name}`,
+        request: { target: "globalThis", key: { kind: "string", value: name } },
+        attributes: g.type === "global-property" ? g.attributes : "wc",
+        ...(g.type === "function" && {
+          length: g.length ?? g.parameters.required,
+        }),
+        inferred: {
+          ...(g.type !== "global-property" && { attributes: true }),
+          ...(g.type === "function" &&
+            g.length === undefined && { length: true }),
+        },
+      });
+    }
+    if (g.type !== "class" && g.type !== "namespace") continue;
+    const self = toExpression(name);
+    if (g.type === "class" && self) {
+      if (g.ctor) {
+        expectations.push({
+          path: name,
+          request: { target: self },
+          length: g.ctor.length ?? g.ctor.parameters.required,
+          ...(g.ctor.length === undefined && { inferred: { length: true } }),
+        });
+      }
+      if (g.extends && g.extends !== "null" && g.extends !== "N/A") {
+        const parent = normalizePath(g.extends);
+        // Without a constructor, only the prototypes are linked
+        const onPrototype = !g.ctor || parent.endsWith(".prototype");
+        const parentExpression = toExpression(
+          onPrototype && !parent.endsWith(".prototype")
+            ? `${parent}.prototype`
+            : parent,
+        );
+        if (parentExpression) {
+          expectations.push({
+            path: name,
+            request: {
+              target: onPrototype ? `${self}.prototype` : self,
+              prototypeOf: parentExpression,
+            },
+            extends: g.extends,
+          });
+        }
+      }
+    }
+    const members = [
+      ...g.staticProperties,
+      ...g.staticMethods,
+      ...(g.type === "class"
+        ? [...g.prototypeProperties, ...g.instanceMethods]
+        : []),
+    ];
+    for (const member of members) {
+      const target = toExpression(member.owner) ?? "";
+      expectations.push({
+        path: normalizePath(`${member.owner}${formatKey(member.key)}`),
+        request: { target, key: member.key },
+        ...expectMember(member),
+      });
+    }
+    if (g.type !== "class") continue;
+    const instance = instanceExpressions[name] ?? (self && `new ${self}()`);
+    for (const member of g.instanceProperties) {
+      expectations.push({
+        path: getMemberPath(g, member),
+        request: { target: instance ?? "", key: member.key },
+        instance: true,
+        ...expectMember(member),
+      });
+    }
+  }
+  return expectations;
+}
+
+function compare(
+  expectation: Expectation,
+  observation: Observation,
+): ConformanceResult[] {
+  const { path } = expectation;
+  const result = (
+    check: ConformanceResult["check"],
+    status: ConformanceResult["status"],
+    expected: unknown,
+    actual: unknown,
+  ): ConformanceResult => ({ path, check, status, expected, actual });
+  // A mismatch with a value the spec states is the engine's, while one with a
+  // value the scraper fell back to suggests it missed what the spec says
+  const blame = (inferred: boolean | undefined) =>
+    inferred ? "scraper-bug" : "engine-gap";
+  if (!expectation.request.target)
+    return [result("presence", "unresolved", true, undefined)];
+  // An instance that fails to be constructed says nothing about its properties
+  if (!observation.found) {
+    return [
+      expectation.instance
+        ? result("presence", "unresolved", true, undefined)
+        : result("presence", "engine-gap", true, false),
+    ];
+  }
+  if ("prototypeMatches" in observation) {
+    return [
+      result(
+        "extends",
+        observation.prototypeMatches ? "pass" : "engine-gap",
+        expectation.extends,
+        observation.prototypeMatches ? expectation.extends : "different",
+      ),
+    ];
+  }
+  if ("hasProperty" in observation && !observation.hasProperty)
+    return [result("presence", "engine-gap", true, false)];
+  const results = [result("presence", "pass", true, true)];
+  if (expectation.attributes !== undefined && "attributes" in observation) {
+    const actual = observation.attributes;
+    // Engines don't turn data properties into accessors or the other way
+    // around, but the scraper may take one for the other
+    const shapeDiffers =
+      isAccessor(actual) !== isAccessor(expectation.attributes);
+    results.push(
+      result(
+        "attributes",
+        actual === expectation.attributes
+          ? "pass"
+          : blame(shapeDiffers || expectation.inferred?.attributes),
+        expectation.attributes,
+        actual,
+      ),
+    );
+  }
+  if (expectation.length !== undefined && "length" in observation) {
+    results.push(
+      result(
+        "length",
+        observation.length === expectation.length
+          ? "pass"
+          : blame(expectation.inferred?.length),
+        expectation.length,
+        observation.length,
+      ),
+    );
+  }
+  return results;
+}
+
+/**
+ * Builds a standalone script that inspects the intrinsics of the engine it
+ * runs in. `print` is used where `console` isn't available.
+ */
+export function buildProbeScript(intrinsics: JSGlobal[]): string {
+  const requests = getExpectations(intrinsics).map((e) => e.request);
+  return `var result = (${probe.toString()})(${JSON.stringify(requests)});
+(typeof console !== "undefined" ? console.log : print)(result);
+`;
+}
+
+/**
+ * Compares the scraped data with the observations of a probe script. When
+ * no output is given, the probe runs in a fresh realm of this process.
+ */
+export function checkConformance(
+  intrinsics: JSGlobal[],
+  probeOutput?: string,
+): ConformanceResult[] {
+  const expectations = getExpectations(intrinsics);
+  const output =
+    probeOutput ??
+    (VM.runInNewContext(
+      `(${probe.toString()})(${JSON.stringify(
+        expectations.map((e) => e.request),
+      )})`,
+    ) as string);
+  const observations = JSON.parse(output) as Observation[];
+  return expectations.flatMap((e, i) => compare(e, observations[i]!));
+}
+
+export function formatConformanceReport(results: ConformanceResult[]): string {
+  const counts = Object.entries(
+    results.reduce<{ [status: string]: number }>((acc, r) => {
+      acc[r.status] = (acc[r.status] ?? 0) + 1;
+      return acc;
+    }, {}),
+  ).map(([status, count]) => `- ${status}: ${count}`);
+  const failures = results.filter((r) => r.status !== "pass");
+  const table = failures.length
+    ? [
+        "| Path | Check | Status | Expected | Actual |",
+        "| --- | --- | --- | --- | --- |",
+        ...failures.map(
+          (r) =>
+            `| \`${r.path}\` | ${r.check} | ${r.status} | ${JSON.stringify(
+              r.expected,
+            )} | ${JSON.stringify(r.actual)} |`,
+        ),
+      ].join("\n")
+    : "All checks passed.";
+  return `# Conformance report\n\n${counts.join("\n")}\n\n${table}\n`;
+}
@@ -0,0 +1,106 @@
+import type { CheerioAPI } from "cheerio";
+import type { Diagnostic, Section } from "./types.js";
+
+const excerptLength = 200;
+
+export type Reporter = {
+  /** Records an anomaly, or throws if diagnostics aren't being collected */
+  fail: (
+    message: string,
+    section: Section | undefined,
+    severity?: Diagnostic["severity"],
+  ) => void;
+  /**
+   * Like `assert`, but when diagnostics are being collected, a failed check
+   * is recorded instead of thrown, so the caller can fall back.
+   */
+  check: (
+    condition: unknown,
+    message: string,
+    section: Section | undefined,
+    severity?: Diagnostic["severity"],
+  ) => boolean;
+  /**
+   * Returns `fallback` instead of throwing when `fn` fails while diagnostics
+   * are being collected. Used to skip entries that can't be made.
+   */
+  recover: <T>(section: Section, fallback: T, fn: () => T) => T;
+};
+
+function getExcerpt($: CheerioAPI, id: string): string {
+  const text = $(`[id="${id}"]`).text().replace(/\s+/gu, " ").trim();
+  return text.length > excerptLength
+    ? `${text.slice(0, excerptLength)}…`
+    : text;
+}
+
+/**
+ * Without `diagnostics`, failed checks throw like `assert` does. Sections of
+ * documents merged into the main spec have IDs with `idPrefix`, which the
+ * document itself doesn't have. An anomaly already recorded for a section,
+ * such as by another pass over the same part of the spec, isn't recorded
+ * again.
+ */
+export function createReporter(
+  $: CheerioAPI,
+  diagnostics: Diagnostic[] | undefined,
+  idPrefix = "",
+): Reporter {
+  function record(
+    severity: Diagnostic["severity"],
+    message: string,
+    section: Section | undefined,
+  ) {
+    if (
+      diagnostics!.some(
+        (d) =>
+          d.severity === severity &&
+          d.message === message &&
+          d.id === section?.id,
+      )
+    )
+      return;
+    diagnostics!.push({
+      severity,
+      message,
+      id: section?.id,
+      title: section?.title,
+      excerpt: section && getExcerpt($, section.id.slice(idPrefix.length)),
+    });
+  }
+  function fail(
+    message: string,
+    section: Section | undefined,
+    severity: Diagnostic["severity"] = "error",
+  ) {
+    if (!diagnostics) throw new Error(`Assertion failed: ${message}`);
+    record(severity, message, section);
+  }
+  return {
+    fail,
+    check(condition, message, section, severity) {
+      if (!condition) fail(message, section, severity);
+      return Boolean(condition);
+    },
+    recover(section, fallback, fn) {
+      if (!diagnostics) return fn();
+      try {
+        return fn();
+      } catch (e) {
+        record("error", e instanceof Error ? e.message : String(e), section);
+        return fallback;
+      }
+    },
+  };
+}
+
+export function formatDiagnosticsSummary(diagnostics: Diagnostic[]): string {
+  const errors = diagnostics.filter((d) => d.severity === "error").length;
+  const lines = diagnostics.map(
+    (d) => `- ${d.severity}: ${d.message}${d.id ? ` (#${d.id})` : ""}`,
+  );
+  return [
+    `${errors} errors, ${diagnostics.length - errors} warnings`,
+    ...lines,
+  ].join("\n");
+}
@@ -0,0 +1,192 @@
+import { getMembers } from "./query.js";
+import type {
+  JSGlobal,
+  Changelog,
+  FieldChange,
+  EarlyErrorChange,
+} from "./types.js";
+import type { getEarlyErrors } from "./index.js";
+
+type EarlyErrorRecord = Awaited<ReturnType<typeof getEarlyErrors>>;
+
+const comparedFields = [
+  "length",
+  "parameters",
+  "attributes",
+  "usage",
+  "extends",
+] as const;
+
+function diffFields(
+  oldItem: { [field: string]: unknown },
+  newItem: { [field: string]: unknown },
+  global: string,
+  member: string | undefined,
+): FieldChange[] {
+  return comparedFields
+    .filter(
+      (field) =>
+        (field in oldItem || field in newItem) &&
+        JSON.stringify(oldItem[field]) !== JSON.stringify(newItem[field]),
+    )
+    .map((field) => ({
+      global,
+      member,
+      field,
+      old: oldItem[field],
+      new: newItem[field],
+    }));
+}
+
+function diffGlobals(
+  oldGlobals: JSGlobal[],
+  newGlobals: JSGlobal[],
+): Pick<Changelog, "globals" | "members" | "fields"> {
+  const oldMap = new Map(oldGlobals.map((g) => [g.name, g]));
+  const newMap = new Map(newGlobals.map((g) => [g.name, g]));
+  const changelog: Pick<Changelog, "globals" | "members" | "fields"> = {
+    globals: { added: [], removed: [] },
+    members: { added: [], removed: [] },
+    fields: [],
+  };
+  for (const [name, oldGlobal] of oldMap) {
+    const newGlobal = newMap.get(name);
+    if (!newGlobal) {
+      changelog.globals.removed.push(name);
+      continue;
+    }
+    changelog.fields.push(...diffFields(oldGlobal, newGlobal, name, undefined));
+    const oldMembers = new Map(
+      getMembers(oldGlobal).map(({ member }) => [member.name, member]),
+    );
+    const newMembers = new Map(
+      getMembers(newGlobal).map(({ member }) => [member.name, member]),
+    );
+    for (const [memberName, oldMember] of oldMembers) {
+      const newMember = newMembers.get(memberName);
+      if (!newMember) {
+        changelog.members.removed.push({
+          global: name,
+          member: memberName,
+          type: oldMember.type,
+        });
+        continue;
+      }
+      changelog.fields.push(
+        ...diffFields(oldMember, newMember, name, memberName),
+      );
+    }
+    for (const [memberName, newMember] of newMembers) {
+      if (!oldMembers.has(memberName)) {
+        changelog.members.added.push({
+          global: name,
+          member: memberName,
+          type: newMember.type,
+        });
+      }
+    }
+  }
+  for (const name of newMap.keys())
+    if (!oldMap.has(name)) changelog.globals.added.push(name);
+  return changelog;
+}
+
+function flattenEarlyErrors(record: EarlyErrorRecord): EarlyErrorChange[] {
+  return Object.entries(record).flatMap(([lhs, rhsMap]) =>
+    Object.entries(rhsMap).flatMap(([rhs, rules]) =>
+      rules.map((rule) => ({ lhs, rhs, rule })),
+    ),
+  );
+}
+
+function diffEarlyErrors(
+  oldRecord: EarlyErrorRecord,
+  newRecord: EarlyErrorRecord,
+): Changelog["earlyErrors"] {
+  const key = (c: EarlyErrorChange) => JSON.stringify([c.lhs, c.rhs, c.rule]);
+  const oldRules = flattenEarlyErrors(oldRecord);
+  const newRules = flattenEarlyErrors(newRecord);
+  const oldKeys = new Set(oldRules.map(key));
+  const newKeys = new Set(newRules.map(key));
+  return {
+    added: newRules.filter((c) => !oldKeys.has(key(c))),
+    removed: oldRules.filter((c) => !newKeys.has(key(c))),
+  };
+}
+
+/**
+ * Compares two scrape outputs. Either side of each pair may be omitted, in
+ * which case that part of the changelog is empty.
+ */
+export function diffScrapes(
+  oldData: { intrinsics?: JSGlobal[]; earlyErrors?: EarlyErrorRecord },
+  newData: { intrinsics?: JSGlobal[]; earlyErrors?: EarlyErrorRecord },
+): Changelog {
+  return {
+    ...diffGlobals(oldData.intrinsics ?? [], newData.intrinsics ?? []),
+    earlyErrors: diffEarlyErrors(
+      oldData.earlyErrors ?? {},
+      newData.earlyErrors ?? {},
+    ),
+  };
+}
+
+export function isEmptyChangelog(changelog: Changelog): boolean {
+  return (
+    changelog.globals.added.length === 0 &&
+    changelog.globals.removed.length === 0 &&
+    changelog.members.added.length === 0 &&
+    changelog.members.removed.length === 0 &&
+    changelog.fields.length === 0 &&
+    changelog.earlyErrors.added.length === 0 &&
+    changelog.earlyErrors.removed.length === 0
+  );
+}
+
+function formatRule(c: EarlyErrorChange): string {
+  return `- **${c.lhs} : ${c.rhs}**: ${c.rule.replace(/\s+/gu, " ")}`;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "_none_" : `\`${JSON.stringify(value)}\``;
+}
+
+export function formatChangelog(changelog: Changelog): string {
+  const sections: [string, string[]][] = [
+    ["Globals added", changelog.globals.added.map((g) => `- \`${g}\``)],
+    ["Globals removed", changelog.globals.removed.map((g) => `- \`${g}\``)],
+    [
+      "Members added",
+      changelog.members.added.map((m) => `- \`${m.member}\` (${m.type})`),
+    ],
+    [
+      "Members removed",
+      changelog.members.removed.map((m) => `- \`${m.member}\` (${m.type})`),
+    ],
+    [
+      "Changed fields",
+      changelog.fields.length
+        ? [
+            "| Entry | Field | Old | New |",
+            "| --- | --- | --- | --- |",
+            ...changelog.fields.map(
+              (c) =>
+                `| \`${c.member ?? c.global}\` | ${c.field} | ${formatValue(
+                  c.old,
+                )} | ${formatValue(c.new)} |`,
+            ),
+          ]
+        : [],
+    ],
+    ["Early error rules added", changelog.earlyErrors.added.map(formatRule)],
+    [
+      "Early error rules removed",
+      changelog.earlyErrors.removed.map(formatRule),
+    ],
+  ];
+  const body = sections
+    .filter(([, lines]) => lines.length)
+    .map(([title, lines]) => `## ${title}\n\n${lines.join("\n")}\n`)
+    .join("\n");
+  return `# Spec changes\n\n${body || "No changes.\n"}`;
+}
@@ -1,27 +1,57 @@
-import { assert, getSpec } from "./utils.js";
-import { type Section } from "./types.js";
+import type { CheerioAPI, Element } from "cheerio";
+import { loadSpec } from "./utils.js";
+import { createReporter } from "./diagnostics.js";
+import {
+  type AbstractOperation,
+  type Diagnostic,
+  type EarlyErrorReference,
+  type EarlyErrorRule,
+  type GrammarProduction,
+  type Section,
+  type SpecSource,
+  type SpecURLs,
+} from "./types.js";
 import type { getEarlyErrors } from "./index.js";
 
-const $ = await getSpec();
-
 type EarlyErrorRecord = Awaited<ReturnType<typeof getEarlyErrors>>;
 
-export function collectEarlyErrors(toc: Section[]): EarlyErrorRecord {
-  const earlyErrorIDs = [];
+type Production = { lhs: string; separator: string; rhs: string };
+
+/** An `<emu-grammar>` and the rules that follow it */
+type EarlyErrorBlock = {
+  section: Section;
+  productions: Production[];
+  content: Element[];
+};
+
+function getEarlyErrorBlocks(
+  $: CheerioAPI,
+  toc: Section[],
+  diagnostics: Diagnostic[] | undefined,
+): EarlyErrorBlock[] {
+  const report = createReporter($, diagnostics);
+  const earlyErrorSections: Section[] = [];
 
-  (function findEarlyErrorIDs(sections: Section[]) {
+  (function findEarlyErrorSections(sections: Section[]) {
     for (const section of sections) {
       if (section.title === "Static Semantics: Early Errors")
-        earlyErrorIDs.push(section.id);
-      findEarlyErrorIDs(section.children);
+        earlyErrorSections.push(section);
+      findEarlyErrorSections(section.children);
     }
   })(toc);
 
-  const earlyErrors: EarlyErrorRecord = {};
+  const blocks: EarlyErrorBlock[] = [];
 
-  $(earlyErrorIDs.map((id) => `#${id}`).join(", ")).each((_, el) => {
-    const children = $(el).children().get();
-    assert(children[0]!.tagName === "h1");
+  for (const section of earlyErrorSections) {
+    const children = $(`[id="${section.id}"]`).children().get();
+    if (
+      !report.check(
+        children[0]?.tagName === "h1",
+        "Early errors section does not start with a heading",
+        section,
+      )
+    )
+      continue;
     children.shift();
     const grammars = children
       .entries()
@@ -30,29 +60,186 @@ export function collectEarlyErrors(toc: Section[]): EarlyErrorRecord {
       .toArray();
     for (const [i, grammar] of grammars.entries()) {
       const grammarText = $(children[grammar]).text().trim();
-      const items = grammarText.split("\n\n").flatMap((t) => {
+      const productions = grammarText.split("\n\n").flatMap((t) => {
         const line = t.split(/::?/);
-        assert(line.length === 2, t);
+        if (
+          !report.check(
+            line.length === 2,
+            `Unexpected production: ${t}`,
+            section,
+          )
+        )
+          return [];
+        const separator = /::?/u.exec(t)![0];
         return line[1]!
           .split("\n")
           .map((s) => s.trim())
           .filter(Boolean)
-          .flatMap((rhs) => ({ lhs: line[0]!.trim(), rhs }));
+          .flatMap((rhs) => ({ lhs: line[0]!.trim(), separator, rhs }));
+      });
+      blocks.push({
+        section,
+        productions,
+        content: children.slice(grammar + 1, grammars[i + 1]),
       });
-      const content = children
-        .slice(grammar + 1, grammars[i + 1])
-        .flatMap((e) => {
-          if (e.tagName === "ul")
-            return e.children.map((c) => $(c).text().trim()).filter(Boolean);
-          if (e.tagName === "emu-note") return `Note: ${$(e).text().trim()}`;
-          return $(e).text().trim();
-        });
-      items.forEach(({ lhs, rhs }) => {
+    }
+  }
+  return blocks;
+}
+
+/**
+ * If `diagnostics` is given, anomalies are recorded there and the affected
+ * grammar blocks are skipped, instead of aborting the scrape.
+ */
+export function collectEarlyErrors(
+  toc: Section[],
+  spec: SpecSource,
+  diagnostics?: Diagnostic[],
+): EarlyErrorRecord {
+  const $ = loadSpec(spec);
+  const earlyErrors: EarlyErrorRecord = {};
+
+  getEarlyErrorBlocks($, toc, diagnostics).forEach(
+    ({ productions, content }) => {
+      const texts = content.flatMap((e) => {
+        if (e.tagName === "ul")
+          return e.children.map((c) => $(c).text().trim()).filter(Boolean);
+        if (e.tagName === "emu-note") return `Note: ${$(e).text().trim()}`;
+        return $(e).text().trim();
+      });
+      productions.forEach(({ lhs, rhs }) => {
         earlyErrors[lhs] ??= {};
         earlyErrors[lhs]![rhs] ??= [];
-        earlyErrors[lhs]![rhs]!.push(...content);
+        earlyErrors[lhs]![rhs]!.push(...texts);
       });
-    }
-  });
+    },
+  );
   return earlyErrors;
 }
+
+/** What the references in the rules are resolved against */
+export type EarlyErrorLinks = {
+  abstractOperations: AbstractOperation[];
+  grammar: GrammarProduction[];
+  specURLs: SpecURLs;
+};
+
+// Grammar parameters or arguments, e.g. `[Yield, Await]` or `[+In, ?Yield]`,
+// but not `[lookahead ∉ { `let` }]` or `[empty]`
+const parametersPattern = /(?<=\w)\[[+~?]?\w+(?:,\s*[+~?]?\w+)*\]/gu;
+// Nonterminals are written `|FormalParameters|` in the source, and with
+// `<emu-nt>` in built specs
+const nonterminalPattern = /\|(?<name>[A-Za-z]\w*)(?:\[[^|\]]*\])?\??\|/gu;
+
+function getReferences(
+  $: CheerioAPI,
+  el: Element,
+  operationIDs: Map<string, string>,
+  productionIDs: Map<string, string>,
+): Omit<EarlyErrorReference, "url">[] {
+  const node = $(el);
+  const text = node.text();
+  const nonterminals = [
+    ...node
+      .find("emu-nt")
+      .map((_, nt) => $(nt).text().trim())
+      .get(),
+    ...[...text.matchAll(nonterminalPattern)].map((m) => m.groups!.name!),
+  ];
+  const operations = [
+    ...node
+      .find("emu-xref[aoid]")
+      .map((_, x) => $(x).attr("aoid")!)
+      .get(),
+    // The source leaves operation names for ecmarkup to link
+    ...[...text.matchAll(/\b[A-Z]\w+\b/gu)]
+      .map((m) => m[0])
+      .filter((name) => operationIDs.has(name)),
+  ];
+  const sections = node
+    .find('emu-xref[href^="#"]')
+    .map((_, x) => $(x).attr("href")!.slice(1))
+    .get();
+  const references = [
+    ...nonterminals.map((name) => ({
+      type: "nonterminal" as const,
+      name,
+      id: productionIDs.get(name),
+    })),
+    ...operations.map((name) => ({
+      type: "operation" as const,
+      name,
+      id: operationIDs.get(name),
+    })),
+    ...sections.map((id) => ({ type: "section" as const, name: id, id })),
+  ];
+  return references.filter(
+    (r, i) =>
+      references.findIndex((s) => s.type === r.type && s.name === r.name) === i,
+  );
+}
+
+/**
+ * Like `collectEarlyErrors`, but keeps each rule as a separate record with
+ * where it comes from and what it refers to.
+ */
+export function collectEarlyErrorRules(
+  toc: Section[],
+  spec: SpecSource,
+  links: EarlyErrorLinks,
+  diagnostics?: Diagnostic[],
+): EarlyErrorRule[] {
+  const $ = loadSpec(spec);
+  const operationIDs = new Map(
+    links.abstractOperations.map((o) => [o.name, o.id]),
+  );
+  const productionIDs = new Map(links.grammar.map((p) => [p.name, p.id]));
+  const getURL = (id: string | undefined) =>
+    id === undefined ? undefined : links.specURLs[id]?.singlePage;
+  return getEarlyErrorBlocks($, toc, diagnostics).flatMap(
+    ({ section, productions, content }) => {
+      const items = content.flatMap(
+        (e): { el: Element; kind: EarlyErrorRule["kind"] }[] => {
+          if (e.tagName === "ul") {
+            return e.children
+              .filter((c): c is Element => c.type === "tag")
+              .map((c) => ({ el: c, kind: "rule" }));
+          }
+          return [{ el: e, kind: e.tagName === "emu-note" ? "note" : "rule" }];
+        },
+      );
+      return productions.flatMap(({ lhs, separator, rhs }) => {
+        const name = lhs.replace(parametersPattern, "").trim();
+        const normalizedRHS = rhs
+          .replace(parametersPattern, "")
+          .replace(/\s+/gu, " ")
+          .trim();
+        return items
+          .map(
+            ({ el, kind }): EarlyErrorRule => ({
+              lhs: name,
+              rhs: normalizedRHS,
+              production: `${name} ${separator} ${normalizedRHS}`,
+              parameters:
+                lhs
+                  .match(parametersPattern)?.[0]
+                  .slice(1, -1)
+                  .split(",")
+                  .map((p) => p.trim()) ?? [],
+              kind,
+              text: $(el).text().trim(),
+              references: getReferences($, el, operationIDs, productionIDs).map(
+                (r) => ({
+                  ...r,
+                  url: getURL(r.id),
+                }),
+              ),
+              id: section.id,
+              url: getURL(section.id),
+            }),
+          )
+          .filter((rule) => rule.text);
+      });
+    },
+  );
+}
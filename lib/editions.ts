@@ -0,0 +1,91 @@
+import { getMemberPath, getMembers } from "./query.js";
+import type {
+  EditionTag,
+  JSClass,
+  JSGlobal,
+  JSMember,
+  JSMemberKind,
+  JSNamespace,
+} from "./types.js";
+
+export type Edition = {
+  /** Label used for `since` and `removedIn`, e.g. `ES2017` */
+  name: string;
+  intrinsics: JSGlobal[];
+};
+
+function getKeys(g: JSGlobal) {
+  return getMembers(g).map(({ kind, member }) => ({
+    key: `${g.name} ${kind} ${getMemberPath(g, member)}`,
+    kind,
+    member,
+  }));
+}
+
+function addMember(
+  g: JSClass | JSNamespace,
+  kind: JSMemberKind,
+  member: JSMember,
+): void {
+  if (member.type === "constructor") {
+    if (g.type === "class") g.ctor ??= member;
+  } else if (kind === "static") {
+    if (member.type === "method") g.staticMethods.push(member);
+    else g.staticProperties.push(member);
+  } else if (g.type === "class") {
+    if (member.type === "method") g.instanceMethods.push(member);
+    else if (kind === "instance") g.instanceProperties.push(member);
+    else g.prototypeProperties.push(member);
+  }
+}
+
+/**
+ * Merges the intrinsics of several editions, oldest first, into one list
+ * where each global and member records the edition that introduced it, and
+ * the one that removed it. Removed entries are kept as last seen.
+ */
+export function mergeEditions(editions: Edition[]): JSGlobal[] {
+  const seen = new Map<string, number[]>();
+  const record = (key: string, index: number) =>
+    seen.set(key, [...(seen.get(key) ?? []), index]);
+  editions.forEach(({ intrinsics }, index) => {
+    for (const g of intrinsics) {
+      record(g.name, index);
+      for (const { key } of getKeys(g)) record(key, index);
+    }
+  });
+  function annotate(entry: EditionTag, key: string): void {
+    const indices = seen.get(key)!;
+    entry.since = editions[indices[0]!]!.name;
+    const last = indices.at(-1)!;
+    if (last < editions.length - 1) entry.removedIn = editions[last + 1]!.name;
+  }
+
+  const merged = new Map<string, JSGlobal>();
+  const mergedMembers = new Set<string>();
+  // Newest first, so that the latest definition of each entry wins
+  for (const { intrinsics } of [...editions].reverse()) {
+    for (const g of intrinsics) {
+      const target = merged.get(g.name);
+      if (!target) {
+        const copy = structuredClone(g);
+        annotate(copy, g.name);
+        for (const { key, member } of getKeys(copy)) {
+          annotate(member, key);
+          mergedMembers.add(key);
+        }
+        merged.set(g.name, copy);
+        continue;
+      }
+      if (target.type !== "class" && target.type !== "namespace") continue;
+      for (const { key, kind, member } of getKeys(g)) {
+        if (mergedMembers.has(key)) continue;
+        mergedMembers.add(key);
+        const copy = structuredClone(member);
+        annotate(copy, key);
+        addMember(target, kind, copy);
+      }
+    }
+  }
+  return [...merged.values()];
+}
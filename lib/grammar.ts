@@ -0,0 +1,280 @@
+import { loadSpec } from "./utils.js";
+import { createReporter, type Reporter } from "./diagnostics.js";
+import type {
+  Diagnostic,
+  GrammarAlternative,
+  GrammarArgument,
+  GrammarProduction,
+  GrammarSymbol,
+  Section,
+  SpecSource,
+} from "./types.js";
+
+/** The section a production is parsed from, where anomalies are reported */
+type GrammarContext = { report: Reporter; section: Section };
+
+const regExpSections = ["sec-patterns", "sec-regular-expressions-patterns"];
+
+// Yields the indices of characters that are not part of a terminal, which may
+// contain any character, including backticks when delimited by ```
+function* outsideTerminals(text: string, start = 0): Generator<number> {
+  let quote: "" | "`" | "```" = "";
+  for (let i = start; i < text.length; i++) {
+    if (quote !== "`" && text.startsWith("```", i)) {
+      quote = quote ? "" : "```";
+      i += 2;
+    } else if (quote !== "```" && text[i] === "`") {
+      quote = quote ? "" : "`";
+    } else if (!quote) {
+      yield i;
+    }
+  }
+}
+
+// Returns the index of the closing bracket matching the one at `start`
+function findClosingBracket(text: string, start: number): number {
+  let depth = 0;
+  for (const i of outsideTerminals(text, start)) {
+    if (text[i] === "[" || text[i] === "{") depth++;
+    else if ((text[i] === "]" || text[i] === "}") && --depth === 0) return i;
+  }
+  throw new Error(`Unbalanced brackets in ${text}`);
+}
+
+function splitOutsideTerminals(text: string, separator: string): string[] {
+  const parts = [];
+  let depth = 0;
+  let last = 0;
+  for (const i of outsideTerminals(text)) {
+    if (text[i] === "[" || text[i] === "{") {
+      depth++;
+    } else if (text[i] === "]" || text[i] === "}") {
+      depth--;
+    } else if (depth === 0 && text.startsWith(separator, i)) {
+      parts.push(text.slice(last, i));
+      last = i + separator.length;
+    }
+  }
+  parts.push(text.slice(last));
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+function parseArguments(text: string | undefined): GrammarArgument[] {
+  if (!text) return [];
+  return text.split(",").map((arg) => {
+    const { modifier, name } = arg
+      .trim()
+      .match(/^(?<modifier>[+~?])(?<name>\w+)$/u)!.groups!;
+    return { name: name!, modifier: modifier as GrammarArgument["modifier"] };
+  });
+}
+
+function parseLookahead(
+  context: GrammarContext,
+  operator: string,
+  text: string,
+): Extract<GrammarSymbol, { type: "lookahead" }> {
+  const values = text.startsWith("{")
+    ? splitOutsideTerminals(text.slice(1, -1), ",")
+    : [text];
+  return {
+    type: "lookahead",
+    operator: operator as "=" | "≠" | "∈" | "∉",
+    values: values.map((v) => parseSymbols(context, v)),
+  };
+}
+
+// Unknown symbols end the alternative, which keeps the symbols before them
+function parseSymbols(context: GrammarContext, text: string): GrammarSymbol[] {
+  const symbols: GrammarSymbol[] = [];
+  let rest = text.trim();
+  function consume(pattern: RegExp) {
+    const match = rest.match(pattern);
+    if (match) rest = rest.slice(match[0].length).trim();
+    return match ? match.groups ?? {} : undefined;
+  }
+  while (rest) {
+    const terminal = consume(/^```\s*(?<value>.*?)\s*```|^`(?<plain>[^`]+)`/u);
+    if (terminal) {
+      symbols.push({
+        type: "terminal",
+        value: terminal.value ?? terminal.plain!,
+        optional: false,
+      });
+      continue;
+    }
+    if (rest.startsWith("[lookahead ")) {
+      const end = findClosingBracket(rest, 0);
+      const { operator, values } = rest
+        .slice(0, end + 1)
+        .match(/^\[lookahead (?<operator>[=≠∈∉]) (?<values>.*)\]$/u)!.groups!;
+      symbols.push(parseLookahead(context, operator!, values!.trim()));
+      rest = rest.slice(end + 1).trim();
+      continue;
+    }
+    // E.g. `[> but only if the MV of |HexDigits| ≤ 0x10FFFF]`
+    if (rest.startsWith("[>")) {
+      const end = findClosingBracket(rest, 0);
+      symbols.push({ type: "constraint", text: rest.slice(2, end).trim() });
+      rest = rest.slice(end + 1).trim();
+      continue;
+    }
+    const noSymbol = consume(/^\[no (?<symbol>\w+) here\]/u);
+    if (noSymbol) {
+      symbols.push({ type: "no-symbol-here", symbol: noSymbol.symbol! });
+      continue;
+    }
+    if (consume(/^\[empty\]/u)) {
+      symbols.push({ type: "empty" });
+      continue;
+    }
+    const codePoint = consume(/^<(?<name>\w+)>/u);
+    if (codePoint) {
+      symbols.push({ type: "code-point", name: codePoint.name! });
+      continue;
+    }
+    const prose = consume(/^> (?<text>.*)$/u);
+    if (prose) {
+      symbols.push({ type: "prose", text: prose.text!.trim() });
+      continue;
+    }
+    const butNot = consume(/^but not (?:one of )?(?<exclusions>.*)$/u);
+    if (butNot) {
+      symbols.push({
+        type: "but-not",
+        exclusions: splitOutsideTerminals(butNot.exclusions!, " or ").flatMap(
+          (e) => parseSymbols(context, e),
+        ),
+      });
+      continue;
+    }
+    if (consume(/^\?/u)) {
+      const previous = symbols.at(-1);
+      if (previous?.type === "terminal" || previous?.type === "nonterminal") {
+        previous.optional = true;
+      } else {
+        context.report.fail(
+          `Unexpected optional marker in ${text}`,
+          context.section,
+        );
+      }
+      continue;
+    }
+    const nonterminal = consume(
+      /^(?<name>\w+)(?:\[(?<arguments>[+~?][^\]]*)\])?/u,
+    );
+    if (!nonterminal) {
+      context.report.fail(
+        `Unexpected grammar symbol at "${rest}" in ${text}`,
+        context.section,
+      );
+      break;
+    }
+    symbols.push({
+      type: "nonterminal",
+      name: nonterminal.name!,
+      arguments: parseArguments(nonterminal.arguments),
+      optional: false,
+    });
+  }
+  return symbols;
+}
+
+function parseAlternative(
+  context: GrammarContext,
+  line: string,
+): GrammarAlternative {
+  let rest = line;
+  const guards = [];
+  const guardMatch = rest.match(/^\[(?<guards>[+~]\w+(?:, ?[+~]\w+)*)\]/u);
+  if (guardMatch) {
+    guards.push(
+      ...guardMatch.groups!.guards!.split(",").map((g) => ({
+        name: g.trim().slice(1),
+        present: g.trim().startsWith("+"),
+      })),
+    );
+    rest = rest.slice(guardMatch[0].length);
+  }
+  const labelMatch = rest.match(/\s#(?<label>[\w-]+)$/u);
+  if (labelMatch) rest = rest.slice(0, labelMatch.index);
+  return {
+    guards,
+    symbols: parseSymbols(context, rest),
+    label: labelMatch?.groups!.label,
+  };
+}
+
+function parseProduction(
+  context: GrammarContext,
+  text: string,
+  isRegExp: boolean,
+): GrammarProduction {
+  const [lhs, ...rhs] = text
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+  const { name, parameters, colons, oneOf, inline } = lhs!.match(
+    /^(?<name>\w+)(?:\[(?<parameters>[^\]]*)\])?\s*(?<colons>:{1,3})\s*(?<oneOf>one of)?\s*(?<inline>.*)$/u,
+  )!.groups!;
+  const grammar =
+    colons === ":"
+      ? "syntactic"
+      : colons === ":::"
+      ? "numeric-string"
+      : isRegExp
+      ? "regexp"
+      : "lexical";
+  const lines = inline ? [inline, ...rhs] : rhs;
+  const alternatives = oneOf
+    ? lines
+        .flatMap((l) => splitOutsideTerminals(l, " "))
+        .map((t) => ({
+          guards: [],
+          symbols: parseSymbols(context, t),
+          label: undefined,
+        }))
+    : lines.map((l) => parseAlternative(context, l));
+  return {
+    name: name!,
+    id: context.section.id,
+    grammar,
+    parameters: parameters ? parameters.split(",").map((p) => p.trim()) : [],
+    oneOf: Boolean(oneOf),
+    alternatives,
+  };
+}
+
+/**
+ * If `diagnostics` is given, anomalies are recorded there and the affected
+ * productions are skipped or cut short, instead of aborting the scrape.
+ */
+export function collectGrammar(
+  spec: SpecSource,
+  diagnostics?: Diagnostic[],
+): GrammarProduction[] {
+  const $ = loadSpec(spec);
+  const report = createReporter($, diagnostics);
+  return $('emu-grammar[type="definition"]')
+    .get()
+    .flatMap((el) => {
+      const clause = $(el).closest("emu-clause, emu-annex");
+      const section: Section = {
+        title: clause.children("h1").first().text().trim(),
+        id: clause.attr("id")!,
+        children: [],
+      };
+      const isRegExp = regExpSections.some(
+        (s) => clause.is(`#${s}`) || clause.closest(`#${s}`).length > 0,
+      );
+      return $(el)
+        .text()
+        .split(/\n\s*\n/u)
+        .filter((t) => t.trim())
+        .flatMap((t) =>
+          report.recover<GrammarProduction[]>(section, [], () => [
+            parseProduction({ report, section }, t, isRegExp),
+          ]),
+        );
+    });
+}
@@ -1,19 +1,150 @@
+// The scrapers use array and iterator methods that Node 20 lacks
+import "./polyfill.js";
+
 import FS from "node:fs/promises";
 import { generatedPath } from "./utils.js";
-import type { JSGlobal } from "./types.js";
+import { createIntrinsicsIndex, type IntrinsicsIndex } from "./query.js";
+import { parseVersioned, type VersionedFile } from "./schemas.js";
+import type {
+  JSGlobal,
+  EarlyErrors,
+  EarlyErrorRule,
+  Section,
+  AbstractOperation,
+  GrammarProduction,
+  WellKnownIntrinsic,
+  SpecURLs,
+  Algorithms,
+  CallGraph,
+} from "./types.js";
 
-export async function getIntrinsics(): Promise<JSGlobal[]> {
-  const data = await FS.readFile(generatedPath("intrinsics.json"), "utf8");
-  return JSON.parse(data);
+// Reads once and shares the result, unless the read fails, so that a later
+// call can succeed, e.g. once the data has been scraped
+function cached<T>(read: () => Promise<T>): () => Promise<T> {
+  let cache: Promise<T> | undefined = undefined;
+  return () =>
+    (cache ??= read().catch((e: unknown) => {
+      cache = undefined;
+      throw e;
+    }));
+}
+
+// Throws if the file is from an incompatible version or doesn't match its
+// schema, rather than failing somewhere downstream
+async function readVersioned(file: VersionedFile): Promise<unknown> {
+  const data = await FS.readFile(generatedPath(file), "utf8");
+  return parseVersioned(file, data);
+}
+
+const readIntrinsics = cached(
+  () => readVersioned("intrinsics.json") as Promise<JSGlobal[]>,
+);
+const readTOC = cached(() => readVersioned("toc.json") as Promise<Section[]>);
+const buildIndex = cached(() => readIntrinsics().then(createIntrinsicsIndex));
+const readSpecURLs = cached(
+  async (): Promise<SpecURLs> =>
+    JSON.parse(await FS.readFile(generatedPath("spec-urls.json"), "utf8")),
+);
+
+/**
+ * The data is read once and shared between callers, so it must not be
+ * mutated.
+ */
+export function getIntrinsics(): Promise<JSGlobal[]> {
+  return readIntrinsics();
 }
 
-export async function getEarlyErrors(): Promise<{
-  [lhs: string]: { [rhs: string]: string[] };
-}> {
-  const data = await FS.readFile(generatedPath("early-errors.json"), "utf8");
+export function getTOC(): Promise<Section[]> {
+  return readTOC();
+}
+
+/**
+ * Lookup tables over `getIntrinsics()`: members by path or spec ID, member
+ * iteration, `extends` chains, and filtering by flags.
+ */
+export function getIntrinsicsIndex(): Promise<IntrinsicsIndex> {
+  return buildIndex();
+}
+
+/**
+ * Links to a section of the spec the data was scraped from, either the
+ * single-page or the multi-page build.
+ */
+export async function getSpecURL(
+  id: string,
+  { multiPage = false }: { multiPage?: boolean } = {},
+): Promise<string | undefined> {
+  const urls = (await readSpecURLs())[id];
+  return multiPage ? urls?.multiPage : urls?.singlePage;
+}
+
+export async function getEarlyErrors(): Promise<EarlyErrors> {
+  return (await readVersioned("early-errors.json")) as EarlyErrors;
+}
+
+/**
+ * Each early error rule or note as a separate record, with the section it
+ * comes from and the nonterminals, operations and sections it refers to.
+ */
+export async function getEarlyErrorRules(): Promise<EarlyErrorRule[]> {
+  return (await readVersioned("early-error-rules.json")) as EarlyErrorRule[];
+}
+
+/** The steps of the built-ins, by the ID they have in `getIntrinsics()` */
+export async function getAlgorithms(): Promise<Algorithms> {
+  return (await readVersioned("algorithms.json")) as Algorithms;
+}
+
+export async function getAbstractOperations(): Promise<AbstractOperation[]> {
+  return (await readVersioned(
+    "abstract-operations.json",
+  )) as AbstractOperation[];
+}
+
+export async function getGrammar(): Promise<GrammarProduction[]> {
+  const data = await FS.readFile(generatedPath("grammar.json"), "utf8");
   return JSON.parse(data);
 }
 
+/**
+ * The abstract operations that each built-in calls, directly or not, and the
+ * built-ins that use each abstract operation.
+ */
+export async function getCallGraph(): Promise<CallGraph> {
+  return (await readVersioned("call-graph.json")) as CallGraph;
+}
+
+export async function getWellKnownIntrinsics(): Promise<WellKnownIntrinsic[]> {
+  return (await readVersioned(
+    "well-known-intrinsics.json",
+  )) as WellKnownIntrinsic[];
+}
+
+/**
+ * Intrinsics of all editions given to `npm run editions`, annotated with
+ * `since` and `removedIn`.
+ */
+export async function getIntrinsicsHistory(): Promise<JSGlobal[]> {
+  return (await readVersioned("intrinsics-history.json")) as JSGlobal[];
+}
+
 // Purely exporting types
 // eslint-disable-next-line no-restricted-syntax
 export type * from "./types.js";
+export { getMembers, normalizePath, type IntrinsicsIndex } from "./query.js";
+export { formatVersion } from "./schemas.js";
+export { buildTOC } from "./toc.js";
+export { collectIntrinsics } from "./intrinsics.js";
+export {
+  collectWellKnownIntrinsics,
+  resolveExtends,
+} from "./well-known-intrinsics.js";
+export {
+  collectEarlyErrors,
+  collectEarlyErrorRules,
+  type EarlyErrorLinks,
+} from "./early-errors.js";
+export { collectAbstractOperations } from "./abstract-operations.js";
+export { collectGrammar } from "./grammar.js";
+export { collectAlgorithms, collectOperationSteps } from "./algorithms.js";
+export { buildCallGraph, formatCallGraphDOT } from "./call-graph.js";
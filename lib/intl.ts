@@ -0,0 +1,31 @@
+import { createScrapeContext } from "./intrinsics.js";
+import { buildSections, mergeDocument, type DocumentOptions } from "./merge.js";
+import { loadSpec } from "./utils.js";
+import type { JSGlobal, Section, SpecSource } from "./types.js";
+
+export const defaultIntlSpecURL = "https://tc39.es/ecma402/";
+
+/** Prefix of the IDs of entries that come from ECMA-402 */
+export const intlIDPrefix = "ecma402:";
+
+/**
+ * Merges the `Intl` namespace and its classes from an ECMA-402 spec into
+ * `intrinsics`. ECMA-402's definitions of locale-sensitive methods, such as
+ * `String.prototype.localeCompare`, replace the ones from ECMA-262. Returns
+ * the section tree, whose IDs are prefixed like those of the entries.
+ */
+export function mergeIntl(
+  intrinsics: JSGlobal[],
+  spec: SpecSource,
+  { operations, diagnostics }: DocumentOptions = {},
+): Section[] {
+  const $ = loadSpec(spec);
+  const sections = buildSections($, intlIDPrefix);
+  mergeDocument(
+    intrinsics,
+    sections,
+    createScrapeContext($, diagnostics, operations ?? new Map(), intlIDPrefix),
+    { tag: {}, override: true },
+  );
+  return sections;
+}
@@ -1,5 +1,17 @@
-import { assert, getSpec } from "./utils.js";
+import type { CheerioAPI } from "cheerio";
+import { loadSpec } from "./utils.js";
+import { createReporter } from "./diagnostics.js";
+import { getMembers } from "./query.js";
+import { collectAbstractOperations } from "./abstract-operations.js";
+import {
+  collectOperationSteps,
+  createThrowsCollector,
+  flattenSteps,
+  parseAlgorithm,
+} from "./algorithms.js";
+import type { Reporter } from "./diagnostics.js";
 import type {
+  AlgorithmStep,
   JSGlobal,
   JSClass,
   JSNamespace,
@@ -8,68 +20,276 @@ import type {
   JSMethod,
   JSConstructor,
   JSProperty,
+  JSPropertyKey,
+  InternalSlot,
+  Parameter,
   Parameters,
   DataAttributes,
-} from "../src/types.js";
-import { type Section } from "./types.js";
+  Diagnostic,
+  Section,
+  SpecSource,
+  StatusTag,
+  ThrownError,
+} from "./types.js";
 
-const $ = await getSpec();
+/** The document that entries are made from, and where anomalies go */
+export type ScrapeContext = {
+  $: CheerioAPI;
+  /** Prefix of the IDs of the entries, which the document's IDs don't have */
+  idPrefix: string;
+  report: Reporter;
+  collectThrows: (steps: AlgorithmStep[]) => ThrownError[];
+};
 
-function getBareSection(section: Section): Section {
-  assert(
+/**
+ * Without `operations`, errors are followed through the abstract operations
+ * of `spec` itself. Documents that build on the main spec, such as proposals,
+ * pass those of the main spec, and the prefix of the IDs of their entries.
+ */
+export function createScrapeContext(
+  spec: SpecSource,
+  diagnostics?: Diagnostic[],
+  operations?: Map<string, AlgorithmStep[]>,
+  idPrefix = "",
+): ScrapeContext {
+  const $ = loadSpec(spec);
+  return {
+    $,
+    idPrefix,
+    report: createReporter($, diagnostics, idPrefix),
+    collectThrows: createThrowsCollector(
+      operations ?? collectOperationSteps(collectAbstractOperations($), $),
+    ),
+  };
+}
+
+// Entries that can't be made are skipped when collecting diagnostics
+function makeAll<T>(
+  context: ScrapeContext,
+  sections: Section[],
+  make: (s: Section) => T,
+): T[] {
+  return sections.flatMap((s) =>
+    context.report.recover<T[]>(s, [], () => [make(s)]),
+  );
+}
+
+function getBareSection(context: ScrapeContext, section: Section): Section {
+  context.report.check(
     section.children.every(
       (s) =>
-        /^[A-Z][A-Za-z]+\s*\(|^`|Record$/u.test(s.title) &&
-        s.children.length === 0,
+        /^[A-Z][A-Za-z]+\s*\(|^`|Record$|^(?:Runtime|Static) Semantics: /u.test(
+          s.title,
+        ) && s.children.length === 0,
     ) ||
       section.children.filter((s) => /^get |^set /.test(s.title)).length === 2,
     `Not all children are AOs/type-defs for ${section.title}`,
+    section,
+    "warning",
   );
   return section;
 }
 
-function parseParameters(title: string): [string, Parameters] {
+export function parseParameters(title: string): [string, Parameters] {
   const { name, parameters } = title
     .replace(/(?<!,) /gu, "")
     .match(/(?<name>.*)\((?<parameters>.*)\)/u)!.groups!;
   const count = parameters!.trim() ? parameters!.split(",").length : 0;
   const optional = parameters!.split("[").length - 1;
   const rest = parameters!.includes("...");
+  const list: Parameter[] = [];
+  let depth = 0;
+  for (const token of parameters!.match(/\[|\]|(?:\.\.\.)?[\w$]+/gu) ?? []) {
+    if (token === "[") {
+      depth++;
+    } else if (token === "]") {
+      depth--;
+    } else {
+      list.push({
+        // The source writes `_iterable_`, and built specs are normalized to it
+        name: token
+          .replace(/^\.\.\./u, "")
+          .replace(/^_(?<name>.+)_$/u, "$<name>"),
+        optional: depth > 0,
+        rest: token.startsWith("..."),
+        depth,
+      });
+    }
+  }
   return [
     `${name!}()`,
-    { required: count - optional - Number(rest), optional, rest },
+    { required: count - optional - Number(rest), optional, rest, list },
   ];
 }
 
-function makeMethod(s: Section): JSMethod {
-  const attributes = getAttributes(s);
-  const [name, parameters] = parseParameters(s.title);
-  const paras = $(`#${cleanID(s.id)} > p`)
+export function parseKey(title: string): { owner: string; key: JSPropertyKey } {
+  const path = title.replace(/\(.*\)$/u, "").replaceAll(" ", "");
+  const symbol = path.match(
+    /^(?<owner>.*)\[(?:@@|%Symbol\.)(?<wellKnown>\w+)%?\]$/u,
+  );
+  if (symbol) {
+    return {
+      owner: symbol.groups!.owner!,
+      key: { kind: "symbol", wellKnown: symbol.groups!.wellKnown! },
+    };
+  }
+  const lastDot = path.lastIndexOf(".");
+  return {
+    owner: lastDot === -1 ? "" : path.slice(0, lastDot),
+    key: { kind: "string", value: path.slice(lastDot + 1) },
+  };
+}
+
+export function getFunctionName(key: JSPropertyKey): string {
+  return key.kind === "symbol" ? `[Symbol.${key.wellKnown}]` : key.value;
+}
+
+// E.g. `The initial value of the %Symbol.iterator% property is
+// %Map.prototype.entries%`, or in older editions, `... is the same function
+// object as the initial value of the String.prototype.trimStart property`
+const aliasPattern =
+  /The initial value of the \S+ property is (?:%(?<intrinsic>[\w.]+)%|the same function object as the initial value of the \*?"?(?<path>[\w.]+)"?\*? property)/u;
+
+// Aliases have the name of the function they are
+function getAliasedName(paragraphs: string[]): string | undefined {
+  for (const text of paragraphs) {
+    const match = aliasPattern.exec(text);
+    if (match) {
+      const path = match.groups!.intrinsic ?? match.groups!.path!;
+      return path.slice(path.lastIndexOf(".") + 1);
+    }
+  }
+  return undefined;
+}
+
+function getParagraphs(
+  { $ }: ScrapeContext,
+  s: Section,
+  selector = "> p",
+): string[] {
+  return $(`#${cleanID(s.id)} ${selector}`)
     .map((_, el) => $(el).text())
-    .filter((_, text) => text.includes('The *"length"* property of this'))
     .get();
+}
+
+function getSteps({ $ }: ScrapeContext, s: Section): AlgorithmStep[] {
+  return parseAlgorithm($, $(`#${cleanID(s.id)} > emu-alg`).first());
+}
+
+// Operations that check the internal slot of the `this` value they're given
+const brandCheckingOperations: { [name: string]: string } = {
+  ValidateTypedArray: "[[TypedArrayName]]",
+  // Older editions check Date methods with thisTimeValue
+  ThisTimeValue: "[[DateValue]]",
+  IsPromise: "[[PromiseState]]",
+  // Generator methods and built-in iterators, such as %ArrayIteratorPrototype%
+  GeneratorResume: "[[GeneratorState]]",
+  GeneratorResumeAbrupt: "[[GeneratorState]]",
+  GeneratorValidate: "[[GeneratorState]]",
+  AsyncGeneratorValidate: "[[AsyncGeneratorState]]",
+  GetViewValue: "[[DataView]]",
+  SetViewValue: "[[DataView]]",
+};
+
+// E.g. `RequireInternalSlot(M, [[MapData]])` where M is the this value, or
+// `ThisNumberValue(this value)`, which checks [[NumberData]]
+function getBrandCheck(algorithm: AlgorithmStep[]): string | undefined {
+  // Source specs write `_M_` and `*this*`
+  const steps = flattenSteps(algorithm)
+    .map((step) => step.text.replace(/[_*]/gu, ""))
+    .join(" ");
+  const receiver = /Let (?<name>\w+) be the this value\./u.exec(steps)?.groups!
+    .name;
+  const subject = receiver ? `(?:${receiver}|this value)` : "this value";
+  const slotCheck = new RegExp(
+    // Editions before ES2020 say `If M does not have a [[MapData]] internal
+    // slot, throw a TypeError exception.`
+    `RequireInternalSlot\\(${subject}, (?<slot>\\[\\[\\w+\\]\\])\\)|If ${subject} does not have an? (?<oldSlot>\\[\\[\\w+\\]\\]) internal slot`,
+    "u",
+  ).exec(steps);
+  if (slotCheck) return slotCheck.groups!.slot ?? slotCheck.groups!.oldSlot;
+  for (const call of steps.matchAll(
+    new RegExp(`\\b(?<name>\\w+)\\(${subject}\\b`, "gu"),
+  )) {
+    const name = call.groups!.name!.replace(/^this/u, "This");
+    if (name in brandCheckingOperations) return brandCheckingOperations[name];
+    const type = /^This(?<type>\w+)Value$/u.exec(name)?.groups!.type;
+    if (type) return `[[${type}Data]]`;
+  }
+  return undefined;
+}
+
+// The paragraphs, steps and notes can be passed in for sections of another
+// document
+export function makeMethod(
+  context: ScrapeContext,
+  s: Section,
+  paragraphs = getParagraphs(context, s),
+  steps = getSteps(context, s),
+  notes = getParagraphs(context, s, "> emu-note"),
+): JSMethod {
+  const attributes = getAttributes(context, s, paragraphs);
+  const [name, parameters] = parseParameters(s.title);
+  const { owner, key } = parseKey(s.title);
+  // Older editions say `The length property of the concat method is 1.`
+  const lengthPattern =
+    /The (?:\*"length"\*|`?length`?) property of (?:this|the \S+) (?:method|function) is \*?(?<length>\d+)\*?/u;
+  const paras = paragraphs.filter((text) => lengthPattern.test(text));
   let length: number | undefined = undefined;
-  if (paras.length !== 0) {
-    assert(paras.length === 1);
-    const explicitLength = paras[0]!.match(
-      /The \*"length"\* property of this (?:method|function) is \*(?<length>\d+)\*/u,
-    )!.groups!.length!;
+  if (
+    paras.length !== 0 &&
+    context.report.check(
+      paras.length === 1,
+      `Expected ${s.title} to have 1 length paragraph`,
+      s,
+    )
+  ) {
+    const explicitLength = paras[0]!.match(lengthPattern)!.groups!.length!;
     length = Number(explicitLength);
   }
-  return { type: "method", name, id: s.id, parameters, attributes, length };
+  return {
+    type: "method",
+    name,
+    id: s.id,
+    owner,
+    key,
+    functionName: getAliasedName(paragraphs) ?? getFunctionName(key),
+    parameters,
+    attributes,
+    length,
+    brandCheck:
+      getBrandCheck(steps) ??
+      // E.g. `This method is intentionally generic; it does not require that
+      // its this value be an Array.`
+      ([...paragraphs, ...notes].some((text) =>
+        text.includes("intentionally generic"),
+      )
+        ? null
+        : undefined),
+    throws: context.collectThrows(steps),
+  };
 }
 
-function makeConstructor(s: Section | undefined): JSConstructor | null {
+// Other documents can pass their prose and steps as list items, and the
+// parsed steps
+export function makeConstructor(
+  context: ScrapeContext,
+  s: Section | undefined,
+  listItems = s && getConstructorProse(context, s),
+  steps = s?.children[0] && getSteps(context, s.children[0]),
+): JSConstructor | null {
   if (!s) return null;
   const ctorMain = s.children[0];
-  assert(
-    ctorMain?.title.endsWith(")"),
-    "Constructor section does not specify constructor",
-  );
+  if (
+    !context.report.check(
+      ctorMain?.title.endsWith(")"),
+      "Constructor section does not specify constructor",
+      s,
+    )
+  )
+    return null;
   const [name, parameters] = parseParameters(ctorMain!.title);
-  const paras = $(`#${cleanID(s.id)} > ul > li`)
-    .map((_, el) => $(el).text())
-    .get();
+  const paras = listItems ?? [];
   function hasMention(text: string): boolean {
     return paras.some((t) => t.includes(text));
   }
@@ -79,9 +299,28 @@ function makeConstructor(s: Section | undefined): JSConstructor | null {
     if (hasMention("is not intended to be called as a function"))
       return "construct";
     if (hasMention("will throw an error when invoked")) return "none";
-    assert(
+    // ECMA-402 only says so in the constructor's steps, which its source
+    // writes as `If NewTarget is *undefined*, throw a *TypeError* exception.`
+    if (
+      paras.some((t) =>
+        /If NewTarget is \*?undefined\*?, throw a \*?TypeError\*? exception/u.test(
+          t,
+        ),
+      )
+    )
+      return "construct";
+    if (
+      paras.some((t) =>
+        /If NewTarget is \*?undefined\*?, let _?newTarget_? be the active/u.test(
+          t,
+        ),
+      )
+    )
+      return "equivalent";
+    context.report.check(
       hasMention("when called as a function"),
       `Unknown usage: ${s!.title}`,
+      s,
     );
     if (hasMention("when called as a constructor")) return "different";
     return "call";
@@ -94,49 +333,82 @@ function makeConstructor(s: Section | undefined): JSConstructor | null {
     // To be populated later
     length: undefined,
     usage: getUsage(),
+    throws: context.collectThrows(steps ?? []),
   };
 }
 
-function makeProperty(s: Section): JSProperty {
+export function makeProperty(
+  context: ScrapeContext,
+  s: Section,
+  paragraphs = getParagraphs(context, s),
+): JSProperty {
   if (s.children.filter((t) => /^get |^set /.test(t.title)).length === 2) {
+    const { owner, key } = parseKey(s.title);
     return {
       type: "accessor-property",
       name: s.title.replaceAll(" ", ""),
       id: s.id,
+      owner,
+      key,
+      getterName: `get ${getFunctionName(key)}`,
+      setterName: `set ${getFunctionName(key)}`,
       attributes: "gsc",
     };
   } else if (/^get |^set /.test(s.title)) {
+    const { owner, key } = parseKey(s.title.slice(4));
+    const isGetter = /^get /.test(s.title);
     return {
       type: "accessor-property",
       name: s.title.slice(4).replaceAll(" ", ""),
       id: s.id,
-      attributes: `${/^get /.test(s.title) ? "g" : ""}${
-        /^set /.test(s.title) ? "s" : ""
-      }c`,
+      owner,
+      key,
+      getterName: isGetter ? `get ${getFunctionName(key)}` : undefined,
+      setterName: isGetter ? undefined : `set ${getFunctionName(key)}`,
+      attributes: `${isGetter ? "g" : ""}${isGetter ? "" : "s"}c`,
     };
   }
+  const { owner, key } = parseKey(s.title);
   return {
     type: "data-property",
     name: s.title.replaceAll(" ", ""),
     id: s.id,
-    attributes: getAttributes(s) ?? "wc",
+    owner,
+    key,
+    attributes: getAttributes(context, s, paragraphs) ?? "wc",
   };
 }
 
-function makeNamespace(s: Section): JSNamespace {
-  let staticPropSecs = getSubsections(s, /Value Properties of/u)[1];
-  let staticMethodSecs = getSubsections(s, /Function Properties of/u)[1];
-  assert(staticPropSecs.every((p) => !p.title.endsWith(")")));
-  assert(staticMethodSecs.every((p) => p.title.endsWith(")")));
+function makeNamespace(context: ScrapeContext, s: Section): JSNamespace {
+  let staticPropSecs = getSubsections(context, s, /Value Properties of/u)[1];
+  let staticMethodSecs = getSubsections(
+    context,
+    s,
+    /Function Properties of/u,
+  )[1];
+  context.report.check(
+    staticPropSecs.every((p) => !p.title.endsWith(")")),
+    `Unexpected method among the value properties of ${s.title}`,
+    s,
+  );
+  context.report.check(
+    staticMethodSecs.every((p) => p.title.endsWith(")")),
+    `Unexpected property among the function properties of ${s.title}`,
+    s,
+  );
   if (!staticPropSecs.length && !staticMethodSecs.length) {
-    const props = s.children.map(getBareSection);
+    const props = s.children.map((c) => getBareSection(context, c));
     staticPropSecs = props.filter(
       (p) => !/\)$|Abstract Operations|Objects$/.test(p.title),
     );
     staticMethodSecs = props.filter((p) => p.title.endsWith(")"));
   }
-  const staticProperties = staticPropSecs.map(makeProperty);
-  const staticMethods = staticMethodSecs.map(makeMethod);
+  const staticProperties = makeAll(context, staticPropSecs, (p) =>
+    makeProperty(context, p),
+  );
+  const staticMethods = makeAll(context, staticMethodSecs, (p) =>
+    makeMethod(context, p),
+  );
   return {
     type: "namespace",
     name: s.title.replace(/^The | Object$/gu, ""),
@@ -147,42 +419,58 @@ function makeNamespace(s: Section): JSNamespace {
   };
 }
 
-function makeClass(s: Section): JSClass {
+function makeClass(context: ScrapeContext, s: Section): JSClass {
+  const { $ } = context;
   const [ctorPropSec, staticPropSecs] = getSubsections(
+    context,
     s,
     /Properties of (?:.* Constructor|the %TypedArray% Intrinsic Object)/u,
   );
-  const [, instancePropSecs] = getSubsections(s, /.* Instances/u);
+  const [instanceSec, instancePropSecs] = getSubsections(
+    context,
+    s,
+    /.* Instances/u,
+  );
   const [protoSec, protoPropSecs] = getSubsections(
+    context,
     s,
-    /Properties of .* Prototype Object/u,
+    /Properties of (?:.* Prototype|the %\w+Prototype%) Object/u,
   );
   const [ctorSection] = getSubsections(
+    context,
     s,
     /The (?:.* Constructor|%TypedArray% Intrinsic Object)/u,
   );
-  assert(instancePropSecs.every((p) => !p.title.endsWith(")")));
+  context.report.check(
+    instancePropSecs.every((p) => !p.title.endsWith(")")),
+    `Unexpected method among the instance properties of ${s.title}`,
+    s,
+  );
   function makeProperties(sections: Section[], method: false): JSProperty[];
   function makeProperties(sections: Section[], method: true): JSMethod[];
   function makeProperties(
     sections: Section[],
     method: boolean,
   ): JSProperty[] | JSMethod[] {
-    return (
-      sections
-        .filter((p) => p.title.endsWith(")") === method)
-        // @ts-expect-error: this is because of weak inference
-        .map(method ? makeMethod : makeProperty)
-    );
+    const filtered = sections.filter((p) => p.title.endsWith(")") === method);
+    return method
+      ? makeAll(context, filtered, (p) => makeMethod(context, p))
+      : makeAll(context, filtered, (p) => makeProperty(context, p));
   }
   const staticProperties = makeProperties(staticPropSecs, false);
   const staticMethods = makeProperties(staticPropSecs, true);
   const prototypeProperties = makeProperties(protoPropSecs, false);
   const instanceMethods = makeProperties(protoPropSecs, true);
-  const instanceProperties = instancePropSecs.map(makeProperty);
-  const ctor = makeConstructor(ctorSection);
-  if (ctorPropSec) {
-    assert(ctor);
+  const instanceProperties = makeAll(context, instancePropSecs, (p) =>
+    makeProperty(context, p),
+  );
+  const ctor = makeConstructor(context, ctorSection);
+  context.report.check(
+    !ctorPropSec || ctor,
+    `${s.title} has constructor properties but no constructor`,
+    s,
+  );
+  if (ctorPropSec && ctor) {
     const ctorLengthProp = $(`#${cleanID(ctorPropSec.id)} > ul > li`)
       .map((_, el) => $(el).text())
       .filter((_, text) => text.includes('has a *"length"* property'))
@@ -194,8 +482,8 @@ function makeClass(s: Section): JSClass {
       );
     }
   }
-  const ctorProto = getPrototype(ctorPropSec);
-  const protoProto = getPrototype(protoSec);
+  const ctorProto = getPrototype(context, ctorPropSec);
+  const protoProto = getPrototype(context, protoSec);
   function getExtends() {
     if (
       ctorProto === "%Function.prototype%" &&
@@ -208,7 +496,8 @@ function makeClass(s: Section): JSClass {
       return ctorProto.replaceAll("%", "");
     if (ctorProto === "%Function.prototype%" && !protoProto) return "N/A";
     if (!ctorProto && protoProto) return protoProto;
-    throw new Error(`Unexpected extends: ${ctorProto}, ${protoProto}`);
+    context.report.fail(`Unexpected extends: ${ctorProto}, ${protoProto}`, s);
+    return undefined;
   }
   return {
     type: "class",
@@ -222,39 +511,91 @@ function makeClass(s: Section): JSClass {
     prototypeProperties,
     instanceMethods,
     instanceProperties,
+    internalSlots: getInternalSlots(context, instanceSec),
   };
 }
 
-function makeFunction(s: Section): JSFunction {
-  const [name, parameters] = parseParameters(getBareSection(s).title);
+// E.g. `Map instances also have a [[MapData]] internal slot.`, or a table of
+// internal slots, as for Promise instances
+function getInternalSlots(
+  context: ScrapeContext,
+  s: Section | undefined,
+): InternalSlot[] {
+  if (!s) return [];
+  const { $ } = context;
+  const slotPattern = /\[\[\w+\]\]/gu;
+  const fromProse = getParagraphs(context, s)
+    .flatMap((text) => text.split(/(?<=\.)\s+/u))
+    .filter((sentence) => sentence.includes("internal slot"))
+    .flatMap((sentence) => sentence.match(slotPattern) ?? []);
+  const fromTables = $(`#${cleanID(s.id)} > emu-table`)
+    .filter((_, table) =>
+      /Internal Slots/u.test(
+        $(table).attr("caption") ?? $(table).find("figcaption").text(),
+      ),
+    )
+    .find("tr > td:first-child")
+    .map((_, cell) => $(cell).text().trim())
+    .get()
+    .filter((text) => /^\[\[\w+\]\]$/u.test(text));
+  return [...new Set([...fromProse, ...fromTables])]
+    .filter((name) => name !== "[[Prototype]]")
+    .map((name) => ({ name, id: s.id }));
+}
+
+function makeFunction(context: ScrapeContext, s: Section): JSFunction {
+  const [name, parameters] = parseParameters(getBareSection(context, s).title);
   return { type: "function", name, parameters, id: s.id, global: true };
 }
 
-function makeGlobalProperty(s: Section): JSGlobalProperty {
-  const section = getBareSection(s);
+function makeGlobalProperty(
+  context: ScrapeContext,
+  s: Section,
+): JSGlobalProperty {
+  const section = getBareSection(context, s);
   return {
     type: "global-property",
     name: section.title,
     id: section.id,
-    attributes: getAttributes(section)!,
+    attributes: getAttributes(
+      context,
+      section,
+      getParagraphs(context, section),
+    )!,
   };
 }
 
-function getSubsections(s: Section, pattern: RegExp) {
+function getSubsections(context: ScrapeContext, s: Section, pattern: RegExp) {
   const section = s.children.find((c) => pattern.test(c.title));
-  return [section, section?.children.map(getBareSection) ?? []] as const;
+  return [
+    section,
+    section?.children.map((c) => getBareSection(context, c)) ?? [],
+  ] as const;
 }
 
-function getAttributes(s: Section): DataAttributes | undefined {
-  const paras = $(`#${cleanID(s.id)} > p`)
-    .map((_, el) => $(el).text())
-    .filter((_, text) => text.includes("has the attributes"))
-    .get();
-  if (paras.length === 0) return undefined;
-  assert(
-    paras.length === 1,
-    `Expected ${s.title} to have 1 attributes paragraph`,
+// Older editions describe constructors in paragraphs instead of a list
+function getConstructorProse(context: ScrapeContext, s: Section): string[] {
+  const listItems = getParagraphs(context, s, "> ul > li");
+  return listItems.length ? listItems : getParagraphs(context, s);
+}
+
+function getAttributes(
+  context: ScrapeContext,
+  s: Section,
+  paragraphs: string[],
+): DataAttributes | undefined {
+  const paras = paragraphs.filter((text) =>
+    text.includes("has the attributes"),
   );
+  if (
+    paras.length === 0 ||
+    !context.report.check(
+      paras.length === 1,
+      `Expected ${s.title} to have 1 attributes paragraph`,
+      s,
+    )
+  )
+    return undefined;
   const attributes = paras[0]!.match(
     /has the attributes \{ \[\[Writable\]\]: \*(?<writable>true|false)\*, \[\[Enumerable\]\]: \*(?<enumerable>true|false)\*, \[\[Configurable\]\]: \*(?<configurable>true|false)\* \}\./u,
   )!.groups!;
@@ -263,16 +604,35 @@ function getAttributes(s: Section): DataAttributes | undefined {
   }${attributes.configurable === "true" ? "c" : ""}`;
 }
 
-function getPrototype(s: Section | undefined): string | undefined {
+// Editions before ES2021 say `The value of the [[Prototype]] internal slot
+// of the Array constructor is the intrinsic object %FunctionPrototype%.`
+const prototypePattern =
+  /(?:has a \[\[Prototype\]\] internal slot whose value is|The value of the \[\[Prototype\]\] internal slot of .* is(?: the intrinsic object)?) (?<proto>%.*%|\*null\*)\./u;
+
+function getPrototype(
+  context: ScrapeContext,
+  s: Section | undefined,
+): string | undefined {
   if (!s) return undefined;
-  const paras = $(`#${cleanID(s.id)} > ul > li`)
-    .map((_, el) => $(el).text())
-    .filter((_, text) => text.includes("has a [[Prototype]] internal slot"))
-    .get();
-  assert(paras.length === 1, `Prototype not found for ${s.title}`);
-  return paras[0]!.match(
-    /has a \[\[Prototype\]\] internal slot whose value is (?<proto>%.*%|\*null\*)\./u,
-  )!.groups!.proto!;
+  const matching = (texts: string[]) =>
+    texts.filter((text) => prototypePattern.test(text));
+  const listItems = matching(getParagraphs(context, s, "> ul > li"));
+  const paras = listItems.length
+    ? listItems
+    : matching(getParagraphs(context, s));
+  if (
+    !context.report.check(
+      paras.length === 1,
+      `Prototype not found for ${s.title}`,
+      s,
+    )
+  )
+    return undefined;
+  return paras[0]!.match(prototypePattern)!.groups!.proto!.replace(
+    // %FunctionPrototype% is now %Function.prototype%
+    /^%(?<base>\w+?)(?<!Iterator)Prototype%$/u,
+    "%$<base>.prototype%",
+  );
 }
 
 function expandAbstractClass(
@@ -286,12 +646,23 @@ function expandAbstractClass(
     "prototypeProperties",
     "instanceMethods",
   ] as const;
-  function expandSection<T extends { name: string } | null>(
+  // Editions before ES2016 don't italicize the abstract name
+  const pattern = new RegExp(
+    `(?<!%)_?${abstractName.replaceAll("_", "")}_?(?!%)`,
+    "u",
+  );
+  function expandSection<T extends { name: string; owner?: string } | null>(
     p: T,
     name: string,
   ): T {
     if (!p) return null as T;
-    return { ...p, name: p.name.replace(abstractName, name) };
+    return {
+      ...p,
+      name: p.name.replace(pattern, name),
+      ...(p.owner !== undefined && {
+        owner: p.owner.replace(pattern, name),
+      }),
+    };
   }
   return subclasses.map((t) => ({
     ...s,
@@ -303,18 +674,178 @@ function expandAbstractClass(
   }));
 }
 
+// The `legacy` and `normative-optional` attributes apply to nested clauses too
+export function getStatus(
+  { $, idPrefix }: ScrapeContext,
+  id: string,
+): StatusTag {
+  const clause = $(`[id="${id.slice(idPrefix.length)}"]`);
+  return {
+    ...(clause.closest("emu-annex").length > 0 && { annexB: true }),
+    ...(clause.closest("[legacy]").length > 0 && { legacy: true }),
+    ...(clause.closest("[normative-optional]").length > 0 && {
+      normativeOptional: true,
+    }),
+  };
+}
+
 function cleanID(id: string): string {
   return id.replaceAll(/[.@%]/g, "\\$&");
 }
 
-export function collectIntrinsics(toc: Section[]): JSGlobal[] {
-  const typedArrayTypes = $("#table-the-typedarray-constructors dfn")
+// Older editions have no <dfn>s in the table
+function getTypedArrayTypes({ $ }: ScrapeContext): string[] {
+  const types = $("#table-the-typedarray-constructors dfn")
     .map((_, el) => $(el).text().replaceAll("%", ""))
     .get();
+  if (types.length) return types;
+  return $("figcaption, caption")
+    .filter((_, el) => $(el).text().includes("The TypedArray Constructors"))
+    .closest("figure, table")
+    .find("tr > td:first-child")
+    .map((_, el) => $(el).text().trim())
+    .filter((_, text) => /^[A-Z]\w+Array$/u.test(text))
+    .get();
+}
 
-  const errorTypes = $("#sec-native-error-types-used-in-this-standard dfn")
+function getChildren(
+  context: ScrapeContext,
+  sections: Section[],
+  title: string,
+  parent?: Section,
+): Section[] {
+  const section = sections.find((s) => s.title === title);
+  context.report.check(section, `Missing ${title}`, parent);
+  return section?.children ?? [];
+}
+
+function getErrorTypes(context: ScrapeContext, toc: Section[]): string[] {
+  const { $ } = context;
+  const types = $("#sec-native-error-types-used-in-this-standard dfn")
     .map((_, el) => $(el).text().replaceAll("%", ""))
     .get();
+  if (types.length) return types;
+  return getChildren(
+    context,
+    getChildren(
+      context,
+      toc.flatMap((s) => s.children),
+      "Error Objects",
+    ),
+    "Native Error Types Used in This Standard",
+  ).map((s) => s.title);
+}
+
+// Gives the clauses that don't describe one object each the shape of those
+// that do
+function restructureSection(
+  context: ScrapeContext,
+  s: Section,
+): Section | Section[] {
+  if (s.title === "Error Objects") {
+    const endOfError =
+      s.children.findIndex((t) => t.title === "Properties of Error Instances") +
+      1;
+    const subItems = s.children
+      .slice(endOfError)
+      .filter((t) => !t.title.startsWith("Abstract Operations"));
+    const [nativeErrorTypes, nativeErrorStructure, ...otherErrors] = subItems;
+    if (
+      !context.report.check(
+        nativeErrorTypes?.title ===
+          "Native Error Types Used in This Standard" &&
+          // Editions before ES2016 don't italicize NativeError
+          /^_?NativeError_? Object Structure$/u.test(
+            nativeErrorStructure?.title ?? "",
+          ),
+        "Unexpected native error sections",
+        s,
+      )
+    )
+      return { ...s, children: s.children.slice(0, endOfError) };
+    // The nativeErrorTypes are already extracted in errorTypes; they will
+    // be backfilled later
+    return [
+      { ...s, children: s.children.slice(0, endOfError) },
+      {
+        ...nativeErrorStructure!,
+        title: "_NativeError_ Object Structure",
+      },
+      ...otherErrors,
+    ];
+  } else if (s.title === "TypedArray Objects") {
+    const endOfTA =
+      s.children.findIndex(
+        (t) => t.title === "Abstract Operations for TypedArray Objects",
+      ) + 1 ||
+      s.children.findIndex((t) => /^The _?TypedArray_? /u.test(t.title));
+    if (endOfTA === -1) {
+      context.report.fail("Missing the TypedArray constructors", s);
+      return s;
+    }
+    return [
+      { ...s, children: s.children.slice(0, endOfTA) },
+      { ...s, title: "_TypedArray_", children: s.children.slice(endOfTA) },
+    ];
+  } else if (s.title === "Object Objects") {
+    const prototypeProps = s.children.findIndex(
+      (t) => t.title === "Properties of the Object Prototype Object",
+    );
+    const prototypePropsSection = s.children[prototypeProps];
+    if (!prototypePropsSection) {
+      context.report.fail(
+        "Missing Properties of the Object Prototype Object",
+        s,
+      );
+      return s;
+    }
+    return {
+      ...s,
+      children: s.children.toSpliced(prototypeProps, 1, {
+        ...prototypePropsSection,
+        children: prototypePropsSection.children.flatMap((t) =>
+          t.title === "Legacy Object.prototype Accessor Methods"
+            ? t.children
+            : t,
+        ),
+      }),
+    };
+  } else if (s.title === "Iteration") {
+    // %AsyncIteratorPrototype% was added in ES2018
+    return s.children.filter(
+      (t) =>
+        t.title === "The %IteratorPrototype% Object" ||
+        t.title === "The %AsyncIteratorPrototype% Object",
+    );
+  } else if (s.title === "Module Namespace Objects") {
+    // No page for this
+    return [];
+  } else if (s.title === "The Atomics Object") {
+    // Remove WaiterList things
+    return {
+      ...s,
+      children: s.children.filter((t) => /^Atomics[ .]/u.test(t.title)),
+    };
+  }
+  return s;
+}
+
+/**
+ * Collects the built-in objects from `spec`, which is the current draft or
+ * the snapshot of an edition. If `diagnostics` is given, anomalies are
+ * recorded there and the affected entries are skipped or left incomplete,
+ * instead of aborting the scrape. Callers that already have the steps of the
+ * abstract operations of `spec` can pass them as `operations`.
+ */
+export function collectIntrinsics(
+  toc: Section[],
+  spec: SpecSource,
+  diagnostics?: Diagnostic[],
+  operations?: Map<string, AlgorithmStep[]>,
+): JSGlobal[] {
+  const context = createScrapeContext(spec, diagnostics, operations);
+  const typedArrayTypes = getTypedArrayTypes(context);
+  const errorTypes = getErrorTypes(context, toc);
 
   const objects = toc
     .slice(
@@ -322,71 +853,16 @@ export function collectIntrinsics(toc: Section[]): JSGlobal[] {
       toc.findIndex((s) => s.title === "Reflection") + 1,
     )
     .flatMap((s) => s.children)
-    .flatMap((s) => {
-      if (s.title === "Error Objects") {
-        const endOfError =
-          s.children.findIndex(
-            (t) => t.title === "Properties of Error Instances",
-          ) + 1;
-        const subItems = s.children.slice(endOfError, -1);
-        const [nativeErrorTypes, nativeErrorStructure, ...otherErrors] =
-          subItems;
-        assert(
-          nativeErrorTypes!.title ===
-            "Native Error Types Used in This Standard",
-        );
-        assert(
-          nativeErrorStructure!.title === "_NativeError_ Object Structure",
-        );
-        // The nativeErrorTypes are already extracted in errorTypes; they will
-        // be backfilled later
-        return [
-          { ...s, children: s.children.slice(0, endOfError) },
-          nativeErrorStructure!,
-          ...otherErrors,
-        ];
-      } else if (s.title === "TypedArray Objects") {
-        const endOfTA =
-          s.children.findIndex(
-            (t) => t.title === "Abstract Operations for TypedArray Objects",
-          ) + 1;
-        return [
-          { ...s, children: s.children.slice(0, endOfTA) },
-          { ...s, title: "_TypedArray_", children: s.children.slice(endOfTA) },
-        ];
-      } else if (s.title === "Object Objects") {
-        const prototypeProps = s.children.findIndex(
-          (t) => t.title === "Properties of the Object Prototype Object",
-        );
-        const prototypePropsSection = s.children[prototypeProps]!;
-        return {
-          ...s,
-          children: s.children.toSpliced(prototypeProps, 1, {
-            ...prototypePropsSection,
-            children: prototypePropsSection.children.flatMap((t) =>
-              t.title === "Legacy Object.prototype Accessor Methods"
-                ? t.children
-                : t,
-            ),
-          }),
-        };
-      } else if (s.title === "Iteration") {
-        return [
-          s.children.find((t) => t.title === "The %IteratorPrototype% Object")!,
-          s.children.find(
-            (t) => t.title === "The %AsyncIteratorPrototype% Object",
-          )!,
-        ];
-      } else if (s.title === "Module Namespace Objects") {
-        // No page for this
-        return [];
-      } else if (s.title === "The Atomics Object") {
-        // Remove WaiterList things
-        return { ...s, children: s.children.slice(3) };
-      }
-      return s;
-    })
-    .map((s) => (s.title.endsWith("Object") ? makeNamespace(s) : makeClass(s)))
+    .flatMap((s) =>
+      context.report.recover(s, [], () => restructureSection(context, s)),
+    )
+    .flatMap((s) =>
+      makeAll(context, [s], (t) =>
+        t.title.endsWith("Object")
+          ? makeNamespace(context, t)
+          : makeClass(context, t),
+      ),
+    )
     .flatMap((s) => {
       if (s.name === "_TypedArray_") {
         return expandAbstractClass(
@@ -400,57 +876,104 @@ export function collectIntrinsics(toc: Section[]): JSGlobal[] {
       return s;
     });
 
-  const globals = toc.find((s) => s.title === "The Global Object")!.children;
-  assert(
-    globals.length === 4 &&
-      globals[0]!.title === "Value Properties of the Global Object" &&
-      globals[1]!.title === "Function Properties of the Global Object" &&
-      globals[2]!.title === "Constructor Properties of the Global Object" &&
-      globals[3]!.title === "Other Properties of the Global Object",
+  const globals = getChildren(context, toc, "The Global Object");
+  context.report.check(
+    globals.length === 4,
     "Unexpected global object structure",
+    toc.find((s) => s.title === "The Global Object"),
   );
+  const [valueProps, functionProps, constructorProps, otherProps] = [
+    "Value Properties of the Global Object",
+    "Function Properties of the Global Object",
+    "Constructor Properties of the Global Object",
+    "Other Properties of the Global Object",
+  ].map((title) => getChildren(context, globals, title)) as [
+    Section[],
+    Section[],
+    Section[],
+    Section[],
+  ];
   objects.push(
-    ...globals[0]!.children.map(makeGlobalProperty),
-    ...globals[1]!.children
-      .flatMap((s) =>
+    ...makeAll(context, valueProps, (s) => makeGlobalProperty(context, s)),
+    ...makeAll(
+      context,
+      functionProps.flatMap((s) =>
         s.title === "URI Handling Functions"
           ? s.children.filter((t) => !/^[A-Z]/u.test(t.title))
           : s,
-      )
-      .map(makeFunction),
+      ),
+      (s) => makeFunction(context, s),
+    ),
   );
-  globals[2]!.children.forEach((s) => {
-    const title = getBareSection(s).title.replace(" ( . . . )", "");
+  constructorProps.forEach((s) => {
+    const title = getBareSection(context, s).title.replace(" ( . . . )", "");
     const obj = objects.find((o) => o.name === title);
-    assert(obj?.type === "class", `${title} is not a class`);
-    obj.global = true;
+    if (obj?.type === "class") obj.global = true;
+    else context.report.fail(`${title} is not a class`, s);
   });
-  globals[3]!.children.forEach((s) => {
-    const title = getBareSection(s).title;
+  otherProps.forEach((s) => {
+    const title = getBareSection(context, s).title;
     const obj = objects.find((o) => o.name === title);
-    assert(obj?.type === "namespace", `${title} is not a namespace`);
-    obj.global = true;
+    if (obj?.type === "namespace") obj.global = true;
+    else context.report.fail(`${title} is not a namespace`, s);
   });
 
-  toc
-    .find((s) => s.title === "Additional ECMAScript Features for Web Browsers")!
-    .children.find((s) => s.title === "Additional Built-in Properties")!
-    .children.forEach((s) => {
-      const target = s.title.match(
-        /Additional Properties of the (?<name>.*) Object/u,
-      )!.groups!.name!;
-      assert(
-        s.children.every((t) => t.title.endsWith(")")),
-        "Annex B must be all functions",
+  getChildren(
+    context,
+    getChildren(
+      context,
+      toc,
+      "Additional ECMAScript Features for Web Browsers",
+    ),
+    "Additional Built-in Properties",
+  ).forEach((s) => {
+    const target = s.title.match(
+      /Additional Properties of the (?<name>.*) Object/u,
+    )?.groups!.name;
+    if (!target) {
+      context.report.fail(`Unexpected Annex B section: ${s.title}`, s);
+      return;
+    }
+    // Before ES2022, Annex B also had Object.prototype.__proto__
+    context.report.check(
+      target !== "Global" || s.children.every((t) => t.title.endsWith(")")),
+      "Annex B globals must be all functions",
+      s,
+    );
+    if (target === "Global") {
+      objects.push(
+        ...makeAll(
+          context,
+          s.children.filter((t) => t.title.endsWith(")")),
+          (t) => makeFunction(context, t),
+        ),
       );
-      if (target === "Global") {
-        objects.push(...s.children.map(makeFunction));
-      } else {
-        const cls = target.replace(".prototype", "");
-        const obj = objects.find((o) => o.name === cls);
-        assert(obj?.type === "class", `${target} is not a class`);
-        obj.instanceMethods.push(...s.children.map(makeMethod));
+    } else {
+      const cls = target.replace(".prototype", "");
+      const obj = objects.find((o) => o.name === cls);
+      if (obj?.type !== "class") {
+        context.report.fail(`${target} is not a class`, s);
+        return;
       }
-    });
+      obj.instanceMethods.push(
+        ...makeAll(
+          context,
+          s.children.filter((c) => c.title.endsWith(")")),
+          (c) => makeMethod(context, c),
+        ),
+      );
+      obj.prototypeProperties.push(
+        ...makeAll(
+          context,
+          s.children.filter((c) => !c.title.endsWith(")")),
+          (c) => makeProperty(context, c),
+        ),
+      );
+    }
+  });
+  for (const g of objects) {
+    for (const entry of [g, ...getMembers(g).map(({ member }) => member)])
+      Object.assign(entry, getStatus(context, entry.id));
+  }
   return objects;
 }
@@ -0,0 +1,270 @@
+import FS from "node:fs/promises";
+import Path from "node:path";
+import type { IntrinsicsIndex } from "./query.js";
+import type {
+  JSConstructor,
+  JSGlobal,
+  JSMemberEntry,
+  MDNMismatch,
+  MDNReport,
+} from "./types.js";
+
+const referencePath = "files/en-us/web/javascript/reference/global_objects";
+const slugPrefix = "Web/JavaScript/Reference/Global_Objects/";
+
+// Members that MDN documents on the class page instead
+const undocumentedKeys = new Set(["prototype", "constructor"]);
+
+type MDNPage = {
+  slug: string;
+  pageType: string;
+  /** Whether `status` lists `deprecated`, which shows a deprecation banner */
+  deprecated: boolean;
+  /** One entry per line of the syntax block */
+  syntax: { isNew: boolean; count: number; variadic: boolean }[];
+};
+
+function getFrontMatter(content: string): string {
+  return content.match(/^---\n(?<body>[^]*?)\n---/u)?.groups!.body ?? "";
+}
+
+// Only `key: value` lines; lists such as `status` are read separately
+function parseFrontMatter(content: string): { [key: string]: string } {
+  return Object.fromEntries(
+    getFrontMatter(content)
+      .split("\n")
+      .map((line) => line.match(/^(?<key>[\w-]+):\s*(?<value>.*)$/u)?.groups)
+      .filter(Boolean)
+      .map((g) => [
+        g!.key!,
+        g!.value!.replace(/^(?<q>["'])(?<v>.*)\k<q>$/u, "$<v>"),
+      ]),
+  );
+}
+
+function parseSyntax(content: string): MDNPage["syntax"] {
+  const block = content.match(
+    /^## Syntax\n[^]*?```js(?:-nolint)?\n(?<code>[^]*?)```/mu,
+  )?.groups!.code;
+  if (!block) return [];
+  return block
+    .split("\n")
+    .map(
+      (line) =>
+        line.trim().match(/^(?<isNew>new )?[\w$.[\]]+\((?<args>.*)\)$/u)
+          ?.groups,
+    )
+    .filter(Boolean)
+    .map((g) => {
+      // `/* …, */` marks an arbitrary number of arguments
+      const variadic = /…|\.\.\./u.test(g!.args!);
+      const args = g!.args!.replace(/\/\*.*?\*\//gu, "").replace("...", "");
+      return {
+        isNew: Boolean(g!.isNew),
+        count: args.split(",").filter((a) => a.trim()).length,
+        variadic,
+      };
+    });
+}
+
+async function readPages(contentPath: string): Promise<MDNPage[]> {
+  const root = Path.join(contentPath, referencePath);
+  const files = (await FS.readdir(root, { recursive: true })).filter(
+    (f) => Path.basename(f) === "index.md",
+  );
+  return Promise.all(
+    files.map(async (file) => {
+      const content = await FS.readFile(Path.join(root, file), "utf8");
+      const frontMatter = parseFrontMatter(content);
+      return {
+        slug: frontMatter.slug ?? "",
+        pageType: frontMatter["page-type"] ?? "",
+        deprecated: /^status:\n(?:[ \t]+- .*\n)*?[ \t]+- deprecated$/mu.test(
+          getFrontMatter(content),
+        ),
+        syntax: parseSyntax(content),
+      };
+    }),
+  );
+}
+
+function findIntrinsic(
+  page: MDNPage,
+  index: IntrinsicsIndex,
+): JSGlobal | JSMemberEntry | undefined {
+  const parts = page.slug.slice(slugPrefix.length).split("/");
+  const name = parts.at(-1)!;
+  const owner = parts.slice(0, -1).join(".");
+  const key = /^(?:@@|Symbol\.)/u.test(name)
+    ? `[Symbol.${name.replace(/^@@|^Symbol\./u, "")}]`
+    : `.${name}`;
+  switch (page.pageType) {
+    case "javascript-class":
+    case "javascript-namespace":
+    case "javascript-function":
+    case "javascript-global-property":
+      return index.getGlobal(parts.join("."));
+    case "javascript-constructor":
+      return index.getMember(owner);
+    case "javascript-static-method":
+    case "javascript-static-data-property":
+    case "javascript-static-accessor-property":
+      return index.getMember(`${owner}${key}`);
+    case "javascript-instance-method":
+    case "javascript-instance-data-property":
+    case "javascript-instance-accessor-property":
+      return (
+        index.getMember(`${owner}.prototype${key}`) ??
+        index.getMember(`${owner}#${key.replace(/^\./u, "")}`)
+      );
+    default:
+      return undefined;
+  }
+}
+
+// The fewest and most arguments of the syntax forms, with a `max` of `null`
+// if any form is variadic
+type ArgumentRange = { min: number; max: number | null };
+
+function getArgumentRange(page: MDNPage): ArgumentRange | undefined {
+  if (!page.syntax.length) return undefined;
+  const counts = page.syntax.map((s) => s.count);
+  return {
+    min: Math.min(...counts),
+    max: page.syntax.some((s) => s.variadic) ? null : Math.max(...counts),
+  };
+}
+
+function checkPage(
+  page: MDNPage,
+  entry: JSGlobal | JSMemberEntry,
+): Omit<MDNMismatch, "path" | "slug">[] {
+  const mismatches: Omit<MDNMismatch, "path" | "slug">[] = [];
+  const item = "member" in entry ? entry.member : entry;
+  if ("member" in entry) {
+    const mdnKind = page.pageType.match(
+      /^javascript-(?<kind>static|instance)-/u,
+    )?.groups!.kind;
+    const specKind = entry.kind === "static" ? "static" : "instance";
+    if (mdnKind && mdnKind !== specKind)
+      mismatches.push({ field: "placement", spec: specKind, mdn: mdnKind });
+    const mdnType = page.pageType.match(/-(?<type>data|accessor)-property$/u)
+      ?.groups!.type;
+    const specType = item.type.match(/^(?<type>data|accessor)-property$/u)
+      ?.groups!.type;
+    if (mdnType && specType && mdnType !== specType)
+      mismatches.push({ field: "property-type", spec: specType, mdn: mdnType });
+  }
+  const range = getArgumentRange(page);
+  if (range && "parameters" in item) {
+    // Only the maximum is comparable: the spec rarely marks parameters as
+    // optional, as in `Array.prototype.slice ( start, end )`, while MDN lists
+    // a form for every number of arguments
+    const { required, optional, rest } = item.parameters;
+    const spec = rest ? null : required + optional;
+    if (spec !== range.max)
+      mismatches.push({ field: "parameters", spec, mdn: range.max });
+    // MDN may show forms with fewer arguments than `length`, such as
+    // `slice()`, but every form taking more means that it requires arguments
+    // the spec doesn't
+    const length = item.length ?? required;
+    if (range.min > length)
+      mismatches.push({ field: "length", spec: length, mdn: range.min });
+  }
+  // MDN deprecates Annex B and legacy features, but not normative optional
+  // ones
+  const deprecated = Boolean(item.annexB || item.legacy);
+  if (deprecated !== page.deprecated) {
+    mismatches.push({
+      field: "deprecated",
+      spec: deprecated,
+      mdn: page.deprecated,
+    });
+  }
+  if (item.type === "constructor" && page.syntax.length) {
+    const canConstruct = page.syntax.some((s) => s.isNew);
+    const canCall = page.syntax.some((s) => !s.isNew);
+    const expected: { [usage in JSConstructor["usage"]]: [boolean, boolean] } =
+      {
+        equivalent: [true, true],
+        different: [true, true],
+        construct: [true, false],
+        call: [false, true],
+        none: [false, false],
+      };
+    const [specConstruct, specCall] = expected[item.usage];
+    if (canConstruct !== specConstruct || canCall !== specCall) {
+      mismatches.push({
+        field: "usage",
+        spec: item.usage,
+        mdn: { construct: canConstruct, call: canCall },
+      });
+    }
+  }
+  return mismatches;
+}
+
+/**
+ * Compares the intrinsics with the JavaScript reference pages of a local
+ * mdn/content checkout.
+ */
+export async function checkMDN(
+  contentPath: string,
+  index: IntrinsicsIndex,
+): Promise<MDNReport> {
+  const pages = await readPages(contentPath);
+  const report: MDNReport = {};
+  const getGroup = (global: string) =>
+    (report[global] ??= { missingPages: [], orphanPages: [], mismatches: [] });
+  const documented = new Set<JSGlobal | JSMemberEntry>();
+  for (const page of pages) {
+    if (!page.slug.startsWith(slugPrefix)) continue;
+    const global = page.slug.slice(slugPrefix.length).split("/")[0]!;
+    const entry = findIntrinsic(page, index);
+    if (!entry) {
+      getGroup(global).orphanPages.push(page.slug);
+      continue;
+    }
+    documented.add(entry);
+    const path = "member" in entry ? entry.path : entry.name;
+    getGroup(global).mismatches.push(
+      ...checkPage(page, entry).map((m) => ({ path, slug: page.slug, ...m })),
+    );
+  }
+  for (const g of index.globals())
+    if (!documented.has(g)) getGroup(g.name).missingPages.push(g.name);
+  for (const entry of index.members()) {
+    const { key } = "key" in entry.member ? entry.member : { key: undefined };
+    if (key?.kind === "string" && undocumentedKeys.has(key.value)) continue;
+    if (!documented.has(entry))
+      getGroup(entry.owner.name).missingPages.push(entry.path);
+  }
+  for (const [global, group] of Object.entries(report)) {
+    if (
+      !group.missingPages.length &&
+      !group.orphanPages.length &&
+      !group.mismatches.length
+    )
+      delete report[global];
+  }
+  return report;
+}
+
+export function formatMDNReport(report: MDNReport): string {
+  const sections = Object.entries(report)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([global, group]) => {
+      const lines = [
+        ...group.missingPages.map((p) => `- Missing page: \`${p}\``),
+        ...group.orphanPages.map((s) => `- No matching intrinsic: \`${s}\``),
+        ...group.mismatches.map(
+          (m) =>
+            `- \`${m.path}\` ${m.field}: spec ${JSON.stringify(
+              m.spec,
+            )}, MDN ${JSON.stringify(m.mdn)}`,
+        ),
+      ];
+      return `## ${global}\n\n${lines.join("\n")}\n`;
+    });
+  return `# MDN report\n\n${sections.join("\n") || "No issues found.\n"}`;
+}
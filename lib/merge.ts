@@ -0,0 +1,317 @@
+import type { CheerioAPI, Element } from "cheerio";
+import { parseAlgorithm } from "./algorithms.js";
+import {
+  getStatus,
+  makeConstructor,
+  makeMethod,
+  makeProperty,
+  parseKey,
+  parseParameters,
+} from "./intrinsics.js";
+import { getMembers } from "./query.js";
+import type { ScrapeContext } from "./intrinsics.js";
+import type {
+  AlgorithmStep,
+  Diagnostic,
+  JSClass,
+  JSGlobal,
+  JSMethod,
+  JSNamespace,
+  JSProperty,
+  JSPropertyKey,
+  ProposalTag,
+  Section,
+} from "./types.js";
+
+/**
+ * A section of a document other than the main spec, which `mergeDocument`
+ * can't look up by ID.
+ */
+export type DocumentSection = Omit<Section, "children"> & {
+  children: DocumentSection[];
+  /** Whether the section is inside a `<del>` */
+  removed: boolean;
+  /** The structured header type, e.g. `abstract operation` */
+  type: string | undefined;
+  paragraphs: string[];
+  notes: string[];
+  listItems: string[];
+  algorithm: string;
+  steps: AlgorithmStep[];
+};
+
+export type MergeOptions = {
+  /** Set on every entry that the document adds or removes */
+  tag: ProposalTag;
+  /**
+   * Whether clauses about existing members replace them, as ECMA-402's
+   * locale-sensitive methods do. Otherwise they are taken as context.
+   */
+  override: boolean;
+};
+
+/** How another document is scraped alongside the main spec */
+export type DocumentOptions = {
+  /**
+   * The steps of the main spec's abstract operations, which the errors
+   * thrown by the document's built-ins are followed through
+   */
+  operations?: Map<string, AlgorithmStep[]>;
+  diagnostics?: Diagnostic[] | undefined;
+};
+
+const memberPattern =
+  /^(?:get |set )?%?[\w$]+%?(?:\.[\w$%]+)*(?: ?\[ ?(?:@@|%Symbol\.)\w+%? ?\])?(?: \(.*\))?$/u;
+const constructorPattern = /^The (?<name>%?[\w.]+%?) Constructor$/u;
+const objectPattern = /^The (?<name>%?[\w.]+%?) Object$/u;
+// `Intl.Collator ( . . . )` refers to the constructor defined elsewhere
+const referencePattern = / \( \. \. \. \)$/u;
+
+function normalize(text: string): string {
+  return text.replace(/\s+/gu, " ").trim();
+}
+
+/**
+ * Builds the section tree of an ecmarkup document, looking through clauses
+ * wrapped in `<ins>` or `<del>`. IDs are prefixed with `idPrefix`.
+ */
+export function buildSections(
+  $: CheerioAPI,
+  idPrefix = "",
+  elements = $("emu-clause, emu-annex")
+    .filter((_, el) => $(el).parents("emu-clause, emu-annex").length === 0)
+    .get(),
+): DocumentSection[] {
+  return elements.flatMap((el: Element): DocumentSection[] => {
+    const node = $(el);
+    if (el.tagName === "ins" || el.tagName === "del") {
+      return buildSections(
+        $,
+        idPrefix,
+        node.children("emu-clause, emu-annex").get(),
+      );
+    }
+    const title = node.children("h1").first().clone();
+    title.find(".secnum, del").remove();
+    return [
+      {
+        title: normalize(title.text()),
+        id: `${idPrefix}${node.attr("id")!}`,
+        removed: node.closest("del").length !== 0,
+        type: node.attr("type"),
+        paragraphs: node
+          .children("p, ins")
+          .map((_, p) => $(p).text())
+          .get(),
+        notes: node
+          .children("emu-note")
+          .map((_, note) => $(note).text())
+          .get(),
+        listItems: node
+          .children("ul")
+          .children("li")
+          .map((_, li) => $(li).text())
+          .get(),
+        algorithm: node.children("emu-alg").text(),
+        steps: parseAlgorithm($, node.children("emu-alg").first()),
+        children: buildSections(
+          $,
+          idPrefix,
+          node.children("emu-clause, emu-annex, ins, del").get(),
+        ),
+      },
+    ];
+  });
+}
+
+function getPath(s: DocumentSection): string {
+  return s.title.replace(/^get |^set /u, "").replace(referencePattern, "");
+}
+
+function isMember(s: DocumentSection): boolean {
+  if (!memberPattern.test(s.title)) return false;
+  if (parseKey(getPath(s)).owner) return true;
+  // Abstract operations look like global functions, but are capitalized
+  return (
+    s.title.endsWith(")") &&
+    (s.type === "built-in function" || /^[a-z]/u.test(s.title))
+  );
+}
+
+function collectMembers(
+  sections: DocumentSection[],
+  owners: Map<string, DocumentSection>,
+  constructors: Map<string, DocumentSection>,
+): DocumentSection[] {
+  return sections.flatMap((s) => {
+    const ctorName = s.title.match(constructorPattern)?.groups!.name;
+    if (ctorName) {
+      constructors.set(ctorName, s);
+      return [];
+    }
+    const objectName = s.title.match(objectPattern)?.groups!.name;
+    if (objectName) owners.set(objectName, s);
+    // Accessors with both a getter and a setter are described by their parent
+    if (isMember(s)) return [s];
+    return collectMembers(s.children, owners, constructors);
+  });
+}
+
+function sameKey(a: JSPropertyKey, b: JSPropertyKey): boolean {
+  return a.kind === "symbol"
+    ? b.kind === "symbol" && a.wellKnown === b.wellKnown
+    : b.kind === "string" && a.value === b.value;
+}
+
+function findGlobal(intrinsics: JSGlobal[], name: string) {
+  const candidates = [name, `%${name}%`, name.replaceAll("%", "")];
+  return intrinsics.find((g) => candidates.includes(g.name));
+}
+
+function makeDocumentConstructor(
+  context: ScrapeContext,
+  s: DocumentSection | undefined,
+) {
+  // The usage is only spelled out in the steps of some documents
+  return makeConstructor(
+    context,
+    s,
+    s && [
+      ...s.listItems,
+      ...s.paragraphs,
+      ...s.children.slice(0, 1).map((c) => c.algorithm),
+    ],
+    s?.children[0]?.steps,
+  );
+}
+
+/**
+ * Merges the intrinsics described by the sections of another document into
+ * `intrinsics`. Unlike `collectIntrinsics`, this relies on section titles
+ * alone, so it copes with documents that only add a few clauses here and
+ * there. Entries inside `<del>` are marked as removed.
+ */
+export function mergeDocument(
+  intrinsics: JSGlobal[],
+  sections: DocumentSection[],
+  context: ScrapeContext,
+  { tag, override }: MergeOptions,
+): void {
+  const owners = new Map<string, DocumentSection>();
+  const constructors = new Map<string, DocumentSection>();
+  const members = collectMembers(sections, owners, constructors);
+  const classNames = new Set([
+    ...constructors.keys(),
+    ...members
+      .map((s) => parseKey(getPath(s)).owner)
+      .filter((owner) => owner.endsWith(".prototype"))
+      .map((owner) => owner.slice(0, -".prototype".length)),
+  ]);
+
+  function getOwner(
+    globalName: string,
+    s: DocumentSection,
+  ): JSClass | JSNamespace | undefined {
+    const existing = findGlobal(intrinsics, globalName);
+    if (existing) {
+      return existing.type === "class" || existing.type === "namespace"
+        ? existing
+        : undefined;
+    }
+    const common = {
+      name: globalName,
+      id: (owners.get(globalName) ?? constructors.get(globalName) ?? s).id,
+      global: !globalName.includes(".") && !globalName.includes("%"),
+      staticProperties: [],
+      staticMethods: [],
+      ...tag,
+    };
+    const created: JSClass | JSNamespace = classNames.has(globalName)
+      ? {
+          type: "class",
+          ...common,
+          extends: undefined,
+          ctor: makeDocumentConstructor(context, constructors.get(globalName)),
+          prototypeProperties: [],
+          instanceMethods: [],
+          instanceProperties: [],
+          internalSlots: [],
+        }
+      : { type: "namespace", ...common };
+    intrinsics.push(created);
+    return created;
+  }
+
+  function addMember<T extends JSMethod | JSProperty>(
+    group: T[],
+    member: T,
+    removed: boolean,
+  ) {
+    const index = group.findIndex(
+      (m) => m.type === member.type && sameKey(m.key, member.key),
+    );
+    if (removed) {
+      if (index !== -1) Object.assign(group[index]!, tag, { removed: true });
+    } else if (index === -1) {
+      group.push({ ...member, ...tag });
+    } else if (override) {
+      group[index] = { ...member, ...tag };
+    }
+  }
+
+  for (const s of members) {
+    const { owner } = parseKey(getPath(s));
+    if (!owner) {
+      const [name, parameters] = parseParameters(s.title);
+      const index = intrinsics.findIndex((g) => g.name === name);
+      const fn: JSGlobal = {
+        type: "function",
+        name,
+        id: s.id,
+        parameters,
+        global: true,
+        ...tag,
+      };
+      if (s.removed) {
+        if (index !== -1)
+          Object.assign(intrinsics[index]!, tag, { removed: true });
+      } else if (index === -1) {
+        intrinsics.push(fn);
+      } else if (override) {
+        intrinsics[index] = fn;
+      }
+      continue;
+    }
+    const onPrototype = owner.endsWith(".prototype");
+    const g = getOwner(
+      onPrototype ? owner.slice(0, -".prototype".length) : owner,
+      s,
+    );
+    if (!g) continue;
+    const instance = onPrototype && g.type === "class";
+    if (s.title.endsWith(")") && !referencePattern.test(s.title)) {
+      addMember(
+        instance ? g.instanceMethods : g.staticMethods,
+        makeMethod(context, s, s.paragraphs, s.steps, s.notes),
+        s.removed,
+      );
+    } else {
+      addMember(
+        instance ? g.prototypeProperties : g.staticProperties,
+        makeProperty(
+          context,
+          { ...s, title: s.title.replace(referencePattern, "") },
+          s.paragraphs,
+        ),
+        s.removed,
+      );
+    }
+  }
+  // Other documents have legacy and normative-optional clauses too
+  for (const g of intrinsics) {
+    for (const entry of [g, ...getMembers(g).map(({ member }) => member)]) {
+      if (context.idPrefix && entry.id.startsWith(context.idPrefix))
+        Object.assign(entry, getStatus(context, entry.id));
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { createScrapeContext } from "./intrinsics.js";
+import { buildSections, mergeDocument, type DocumentOptions } from "./merge.js";
+import { loadSpec } from "./utils.js";
+import type { JSGlobal, SpecSource } from "./types.js";
+
+/**
+ * Prefix of the IDs of entries that come from a proposal, which would
+ * otherwise collide with ECMA-262 IDs
+ */
+export function getProposalIDPrefix(name: string): string {
+  return `proposal:${name}:`;
+}
+
+/**
+ * Merges the intrinsics added by a proposal spec into `intrinsics`. New
+ * entries are tagged with the proposal name, and entries inside `<del>` are
+ * marked as removed. Clauses that describe existing entries are left alone,
+ * since proposals often repeat them for context. The IDs of new entries are
+ * prefixed with `getProposalIDPrefix(name)`.
+ */
+export function mergeProposal(
+  intrinsics: JSGlobal[],
+  name: string,
+  spec: SpecSource,
+  { operations, diagnostics }: DocumentOptions = {},
+): void {
+  const $ = loadSpec(spec);
+  const idPrefix = getProposalIDPrefix(name);
+  mergeDocument(
+    intrinsics,
+    buildSections($, idPrefix),
+    createScrapeContext($, diagnostics, operations ?? new Map(), idPrefix),
+    { tag: { proposal: name }, override: false },
+  );
+}
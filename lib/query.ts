@@ -0,0 +1,149 @@
+import type {
+  JSGlobal,
+  JSClass,
+  JSNamespace,
+  JSMember,
+  JSMemberEntry,
+  JSMemberKind,
+  JSPropertyKey,
+  StatusTag,
+} from "./types.js";
+
+type Flags = {
+  /** Only entries that are (or belong to) properties of the global object */
+  global?: boolean;
+  /** Only entries that are (or are not) defined in Annex B */
+  annexB?: boolean;
+  /** Only entries that are (or are not) marked legacy */
+  legacy?: boolean;
+  /** Only entries that are (or are not) marked normative optional */
+  normativeOptional?: boolean;
+};
+
+const statusFlags = ["annexB", "legacy", "normativeOptional"] as const;
+
+export type IntrinsicsIndex = {
+  globals: (flags?: Flags) => JSGlobal[];
+  members: (flags?: Flags & { kind?: JSMemberKind }) => JSMemberEntry[];
+  getGlobal: <T extends JSGlobal["type"] = JSGlobal["type"]>(
+    name: string,
+    type?: T,
+  ) => Extract<JSGlobal, { type: T }> | undefined;
+  getMember: (path: string) => JSMemberEntry | undefined;
+  /** Multiple entries may share an ID, e.g. members of all TypedArrays */
+  getByID: (id: string) => (JSGlobal | JSMemberEntry)[];
+  /** The classes a class inherits from, nearest first */
+  getExtendsChain: (name: string) => JSClass[];
+};
+
+export function getMembers(
+  g: JSGlobal,
+): { kind: JSMemberKind; member: JSMember }[] {
+  const tag =
+    (kind: JSMemberKind) =>
+    (member: JSMember): { kind: JSMemberKind; member: JSMember } => ({
+      kind,
+      member,
+    });
+  switch (g.type) {
+    case "namespace":
+      return [...g.staticProperties, ...g.staticMethods].map(tag("static"));
+    case "class":
+      return [
+        ...(g.ctor ? [g.ctor] : []).map(tag("constructor")),
+        ...[...g.staticProperties, ...g.staticMethods].map(tag("static")),
+        ...[...g.prototypeProperties, ...g.instanceMethods].map(
+          tag("prototype"),
+        ),
+        ...g.instanceProperties.map(tag("instance")),
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Normalizes the different ways of writing a member path: spaces, trailing
+ * `()`, `%Intrinsic%` owners, and `@@iterator` or `%Symbol.iterator%` keys.
+ */
+export function normalizePath(path: string): string {
+  return path
+    .replaceAll(" ", "")
+    .replace(/\(\)$/u, "")
+    .replace(/\[(?:@@|%?Symbol\.)(?<name>\w+)%?\]/u, "[Symbol.$<name>]")
+    .replaceAll("%", "");
+}
+
+function formatKey(key: JSPropertyKey): string {
+  return key.kind === "symbol" ? `[Symbol.${key.wellKnown}]` : `.${key.value}`;
+}
+
+export function getMemberPath(owner: JSGlobal, member: JSMember): string {
+  if (member.type === "constructor") return owner.name;
+  if (!member.owner)
+    return `${owner.name}#${formatKey(member.key).replace(/^\./u, "")}`;
+  return normalizePath(`${member.owner}${formatKey(member.key)}`);
+}
+
+export function createIntrinsicsIndex(intrinsics: JSGlobal[]): IntrinsicsIndex {
+  const globalsByName = new Map(intrinsics.map((g) => [g.name, g]));
+  // Functions are named `parseInt()`, and some namespaces `%Intrinsic%`
+  const findGlobal = (name: string) =>
+    [name, `${name}()`, `%${name}%`, name.replaceAll("%", "")]
+      .map((n) => globalsByName.get(n))
+      .find(Boolean);
+  const memberEntries = intrinsics.flatMap((owner) =>
+    getMembers(owner).map(
+      ({ kind, member }): JSMemberEntry => ({
+        path: getMemberPath(owner, member),
+        owner: owner as JSNamespace | JSClass,
+        kind,
+        member,
+      }),
+    ),
+  );
+  const membersByPath = new Map(memberEntries.map((e) => [e.path, e]));
+  const byID = new Map<string, (JSGlobal | JSMemberEntry)[]>();
+  for (const entry of [...intrinsics, ...memberEntries]) {
+    const id = "member" in entry ? entry.member.id : entry.id;
+    byID.set(id, [...(byID.get(id) ?? []), entry]);
+  }
+
+  // The status flags are checked against the member itself, if any
+  function matches(g: JSGlobal, entry: StatusTag, flags: Flags): boolean {
+    const isGlobal = g.type === "global-property" || g.global;
+    if (flags.global !== undefined && isGlobal !== flags.global) return false;
+    return statusFlags.every(
+      (flag) =>
+        flags[flag] === undefined || Boolean(entry[flag]) === flags[flag],
+    );
+  }
+
+  return {
+    globals: (flags = {}) => intrinsics.filter((g) => matches(g, g, flags)),
+    members: (flags = {}) =>
+      memberEntries.filter(
+        (e) =>
+          (flags.kind === undefined || e.kind === flags.kind) &&
+          matches(e.owner, e.member, flags),
+      ),
+    getGlobal: <T extends JSGlobal["type"]>(name: string, type?: T) => {
+      const g = findGlobal(name);
+      if (!g || (type && g.type !== type)) return undefined;
+      return g as Extract<JSGlobal, { type: T }>;
+    },
+    getMember: (path) => membersByPath.get(normalizePath(path)),
+    getByID: (id) => byID.get(id) ?? [],
+    getExtendsChain(name) {
+      const chain: JSClass[] = [];
+      let current = findGlobal(name);
+      while (current?.type === "class" && current.extends) {
+        const parent = findGlobal(current.extends);
+        if (parent?.type !== "class" || chain.includes(parent)) break;
+        chain.push(parent);
+        current = parent;
+      }
+      return chain;
+    },
+  };
+}
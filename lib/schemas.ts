@@ -0,0 +1,194 @@
+import FS from "node:fs/promises";
+import { schemaPath } from "./utils.js";
+
+/**
+ * Version of the format of the files below. Bump it whenever `npm run
+ * schemas` changes their schemas, so that consumers can tell old data apart.
+ */
+export const formatVersion = 5;
+
+export const schemaFiles = {
+  "intrinsics.json": "intrinsics.schema.json",
+  "early-errors.json": "early-errors.schema.json",
+  "early-error-rules.json": "early-error-rules.schema.json",
+  "toc.json": "toc.schema.json",
+  "algorithms.json": "algorithms.schema.json",
+  "call-graph.json": "call-graph.schema.json",
+  "abstract-operations.json": "abstract-operations.schema.json",
+  "well-known-intrinsics.json": "well-known-intrinsics.schema.json",
+  "intrinsics-history.json": "intrinsics-history.schema.json",
+} as const;
+
+export type VersionedFile = keyof typeof schemaFiles;
+
+/** The subset of JSON Schema that `npm run schemas` generates */
+export type JSONSchema = {
+  $schema?: string;
+  $ref?: string;
+  $defs?: { [name: string]: JSONSchema };
+  title?: string;
+  description?: string;
+  type?: "string" | "number" | "boolean" | "null" | "object" | "array";
+  const?: unknown;
+  enum?: unknown[];
+  anyOf?: JSONSchema[];
+  properties?: { [name: string]: JSONSchema };
+  required?: string[];
+  additionalProperties?: JSONSchema | false;
+  items?: JSONSchema;
+};
+
+type Envelope = { $schema: string; formatVersion: number; data: unknown };
+
+const maxReportedErrors = 10;
+
+function isEnvelope(json: unknown): json is Envelope {
+  return (
+    typeof json === "object" &&
+    json !== null &&
+    !Array.isArray(json) &&
+    "formatVersion" in json &&
+    "data" in json
+  );
+}
+
+export function serializeVersioned(file: VersionedFile, data: unknown): string {
+  const envelope: Envelope = {
+    $schema: `../schemas/${schemaFiles[file]}`,
+    formatVersion,
+    data,
+  };
+  return JSON.stringify(envelope, null, 2);
+}
+
+/**
+ * For comparing snapshots, which may predate the format version: parses
+ * the data of a versioned file, or the whole file if it has no envelope.
+ */
+export function parseUnversioned(text: string): unknown {
+  const json: unknown = JSON.parse(text);
+  return isEnvelope(json) ? json.data : json;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function resolve(schema: JSONSchema, root: JSONSchema): JSONSchema {
+  if (!schema.$ref) return schema;
+  const name = schema.$ref.replace(/^#\/\$defs\//u, "");
+  return resolve(root.$defs![name]!, root);
+}
+
+// Alternatives whose constant properties, such as `type`, match the value
+function getCandidates(
+  alternatives: JSONSchema[],
+  value: unknown,
+  root: JSONSchema,
+): JSONSchema[] {
+  return alternatives.filter((alt) => {
+    const schema = resolve(alt, root);
+    if (schema.type && schema.type !== typeOf(value)) return false;
+    if (typeOf(value) !== "object") return true;
+    return Object.entries(schema.properties ?? {}).every(
+      ([key, prop]) =>
+        !("const" in prop) ||
+        (value as { [key: string]: unknown })[key] === prop.const,
+    );
+  });
+}
+
+/**
+ * Checks `value` against `schema`, returning one message per problem, each
+ * starting with the JSON pointer to the offending value.
+ */
+export function validate(
+  schema: JSONSchema,
+  value: unknown,
+  root = schema,
+  path = "",
+): string[] {
+  const at = path || "/";
+  if (schema.$ref) return validate(resolve(schema, root), value, root, path);
+  if (schema.anyOf) {
+    const results = schema.anyOf.map((alt) => validate(alt, value, root, path));
+    if (results.some((errors) => errors.length === 0)) return [];
+    const candidates = getCandidates(schema.anyOf, value, root);
+    if (candidates.length === 1)
+      return results[schema.anyOf.indexOf(candidates[0]!)]!;
+    return [`${at}: ${typeOf(value)} matches none of the allowed shapes`];
+  }
+  if ("const" in schema && value !== schema.const)
+    return [`${at}: expected ${JSON.stringify(schema.const)}`];
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [
+      `${at}: expected one of ${schema.enum
+        .map((v) => JSON.stringify(v))
+        .join(", ")}, got ${JSON.stringify(value)}`,
+    ];
+  }
+  if (schema.type && typeOf(value) !== schema.type)
+    return [`${at}: expected ${schema.type}, got ${typeOf(value)}`];
+  if (Array.isArray(value)) {
+    return schema.items
+      ? value.flatMap((item, i) =>
+          validate(schema.items!, item, root, `${path}/${i}`),
+        )
+      : [];
+  }
+  if (typeOf(value) !== "object") return [];
+  const object = value as { [key: string]: unknown };
+  const errors = (schema.required ?? [])
+    .filter((key) => !(key in object))
+    .map((key) => `${at}: missing property "${key}"`);
+  for (const [key, v] of Object.entries(object)) {
+    const childPath = `${path}/${key
+      .replaceAll("~", "~0")
+      .replaceAll("/", "~1")}`;
+    const propSchema =
+      schema.properties?.[key] ?? schema.additionalProperties ?? {};
+    if (propSchema === false) errors.push(`${childPath}: unexpected property`);
+    else errors.push(...validate(propSchema, v, root, childPath));
+  }
+  return errors;
+}
+
+/**
+ * Parses a file written with `serializeVersioned`, and checks its format
+ * version and its contents against the published schema.
+ */
+export async function parseVersioned(
+  file: VersionedFile,
+  text: string,
+): Promise<unknown> {
+  const json: unknown = JSON.parse(text);
+  if (!isEnvelope(json)) {
+    throw new Error(
+      `${file} has no format version. It was probably written by an older version of es-scraper; run \`npm run scrape\` again.`,
+    );
+  }
+  if (json.formatVersion !== formatVersion) {
+    throw new Error(
+      `${file} has format version ${String(
+        json.formatVersion,
+      )}, but this version of es-scraper reads version ${formatVersion}; run \`npm run scrape\` again.`,
+    );
+  }
+  const schema = JSON.parse(
+    await FS.readFile(schemaPath(schemaFiles[file]), "utf8"),
+  ) as JSONSchema;
+  const errors = validate(schema, json);
+  if (errors.length) {
+    const shown = errors.slice(0, maxReportedErrors);
+    if (errors.length > shown.length)
+      shown.push(`...and ${errors.length - shown.length} more`);
+    throw new Error(
+      `${file} does not match ${schemaFiles[file]}:\n${shown
+        .map((e) => `  ${e}`)
+        .join("\n")}`,
+    );
+  }
+  return json.data;
+}
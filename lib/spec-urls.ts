@@ -0,0 +1,34 @@
+import type { Section, SpecURLs } from "./types.js";
+
+export const defaultSpecURL = "https://tc39.es/ecma262/";
+
+/**
+ * The multi-page build puts each top-level clause on its own page, named
+ * after the clause's ID. `idPrefix` is stripped from the IDs of documents
+ * other than ECMA-262 to get their anchors.
+ */
+export function buildSpecURLs(
+  toc: Section[],
+  baseURL = defaultSpecURL,
+  idPrefix = "",
+): SpecURLs {
+  const base = baseURL.endsWith("/") ? baseURL : `${baseURL}/`;
+  const urls: SpecURLs = {};
+  const anchor = (id: string) => id.slice(idPrefix.length);
+  for (const page of toc) {
+    const pageURL = `${base}multipage/${anchor(page.id).replace(
+      /^sec-/u,
+      "",
+    )}.html`;
+    (function addURLs(sections: Section[]) {
+      for (const section of sections) {
+        urls[section.id] = {
+          singlePage: `${base}#${anchor(section.id)}`,
+          multiPage: `${pageURL}#${anchor(section.id)}`,
+        };
+        addURLs(section.children);
+      }
+    })([page]);
+  }
+  return urls;
+}
@@ -0,0 +1,26 @@
+import type { Cheerio, CheerioAPI, Element } from "cheerio";
+import { loadSpec } from "./utils.js";
+import type { Section, SpecSource } from "./types.js";
+
+function buildSubTOC($: CheerioAPI, root: Cheerio<Element>): Section[] {
+  return root
+    .children("emu-clause, emu-annex")
+    .map((_, el): Section => {
+      const subRoot = $(el);
+      return {
+        title: $(subRoot.children("h1").get()[0]!)
+          .text()
+          .replace(/[\s\n]+/gu, " ")
+          .trim(),
+        id: subRoot.attr("id")!,
+        children: buildSubTOC($, subRoot),
+      };
+    })
+    .get();
+}
+
+/** The tree of the top-level clauses and annexes of `spec`, and their own */
+export function buildTOC(spec: SpecSource): Section[] {
+  const $ = loadSpec(spec);
+  return buildSubTOC($, $(":root > body"));
+}
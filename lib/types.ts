@@ -1,40 +1,173 @@
+import type { CheerioAPI } from "cheerio";
+
+/** The HTML of a spec, or the document already loaded with Cheerio */
+export type SpecSource = string | CheerioAPI;
+
 export type DataAttributes = `${"w" | ""}${"e" | ""}${"c" | ""}`;
 
-export type JSProperty =
-  | {
-      type: "data-property";
-      name: string;
-      id: string;
-      attributes: DataAttributes;
-    }
-  | {
-      type: "accessor-property";
-      name: string;
-      id: string;
-      attributes: `${"g" | ""}${"s" | ""}${"e" | ""}${"c" | ""}`;
-    };
+/** Marks entries that a TC39 proposal adds, or removes from the spec */
+export type ProposalTag = {
+  /** Name of the proposal, if the entry comes from or is removed by one */
+  proposal?: string;
+  removed?: boolean;
+};
+
+/** Set by the `editions` script on entries of `intrinsics-history.json` */
+export type EditionTag = {
+  /** The first edition that has the entry, e.g. `ES2017` */
+  since?: string;
+  /** The first edition that no longer has it */
+  removedIn?: string;
+};
+
+/** Set by `collectIntrinsics` on entries the spec sets apart from the core */
+export type StatusTag = {
+  /** Defined in, or added to an object by, Annex B */
+  annexB?: boolean;
+  /** In a clause marked `legacy`, such as `String.prototype.substr` */
+  legacy?: boolean;
+  /** In a clause marked `normative-optional`, which hosts may leave out */
+  normativeOptional?: boolean;
+};
+
+/** Fields that only some entries have, depending on how they were scraped */
+export type Annotations = ProposalTag & EditionTag & StatusTag;
+
+export type JSPropertyKey =
+  | { kind: "string"; value: string }
+  | { kind: "symbol"; wellKnown: string };
+
+export type JSProperty = Annotations &
+  (
+    | {
+        type: "data-property";
+        name: string;
+        id: string;
+        owner: string;
+        key: JSPropertyKey;
+        attributes: DataAttributes;
+      }
+    | {
+        type: "accessor-property";
+        name: string;
+        id: string;
+        owner: string;
+        key: JSPropertyKey;
+        /**
+         * The `"name"` property of the getter, e.g. `"get [Symbol.species]"`
+         */
+        getterName: string | undefined;
+        /** The `"name"` property of the setter, e.g. `"set __proto__"` */
+        setterName: string | undefined;
+        attributes: `${"g" | ""}${"s" | ""}${"e" | ""}${"c" | ""}`;
+      }
+  );
+
+export type Parameter = {
+  /** E.g. `iterable`, without the underscores of `_iterable_` */
+  name: string;
+  optional: boolean;
+  rest: boolean;
+  /**
+   * Number of optional brackets enclosing it, e.g. 2 for `date` in
+   * `year [ , month [ , date ] ]`
+   */
+  depth: number;
+};
+
+export type Parameters = {
+  required: number;
+  optional: number;
+  rest: boolean;
+  list: Parameter[];
+};
+
+/** A step of an `<emu-alg>`, with its nested steps */
+export type AlgorithmStep = {
+  /** E.g. `1.a.ii` */
+  number: string;
+  text: string;
+  /** `Assert:` and `NOTE:` steps, which don't affect the result */
+  marker: "assertion" | "note" | undefined;
+  /** Names of the abstract operations it calls, e.g. `ToObject` */
+  operations: string[];
+  /** Names of the aliases it uses, without underscores */
+  variables: string[];
+  /** E.g. `%Array.prototype%` */
+  intrinsics: string[];
+  steps: AlgorithmStep[];
+};
+
+/** The steps of each built-in, by the ID it has in `intrinsics.json` */
+export type Algorithms = { [id: string]: AlgorithmStep[] };
 
-export type Parameters = { required: number; optional: number; rest: boolean };
+export type CallGraphEntry = {
+  /** Path of the built-in, as used by the query index */
+  path: string;
+  id: string;
+  /** The abstract operations its steps call */
+  calls: string[];
+  /** The abstract operations that those call in turn, and so on */
+  indirectCalls: string[];
+};
+
+export type CallGraph = {
+  builtIns: CallGraphEntry[];
+  /** The abstract operations each abstract operation calls */
+  operations: { [name: string]: string[] };
+  /** Paths of the built-ins that call each abstract operation */
+  usedBy: { [name: string]: { direct: string[]; indirect: string[] } };
+};
+
+export type ThrownError = {
+  /** E.g. `TypeError` */
+  type: string;
+  /** Number of the step that throws or calls the operation that throws */
+  step: string;
+  /** The `If` clause the step is under, if any */
+  condition: string | undefined;
+  /**
+   * For errors that propagate from an abstract operation the step calls
+   * with `?`, the name of that operation
+   */
+  via: string | undefined;
+};
 
-export type JSMethod = {
+export type JSMethod = Annotations & {
   type: "method";
   name: string;
   id: string;
+  owner: string;
+  key: JSPropertyKey;
+  /**
+   * The `"name"` property of the function, e.g. `"[Symbol.iterator]"`, or
+   * `"entries"` for `Map.prototype[%Symbol.iterator%]`, which is the same
+   * function as `Map.prototype.entries`
+   */
+  functionName: string;
   parameters: Parameters;
   length: number | undefined;
   attributes: DataAttributes | undefined;
+  /**
+   * The internal slot that the `this` value must have, e.g. `[[MapData]]`, or
+   * `null` if the spec says that the method is intentionally generic. If
+   * neither could be found, it is `undefined`.
+   */
+  brandCheck: string | null | undefined;
+  throws: ThrownError[];
 };
 
-export type JSConstructor = {
+export type JSConstructor = Annotations & {
   type: "constructor";
   name: string;
   id: string;
   length: number | undefined;
   parameters: Parameters;
   usage: "call" | "construct" | "equivalent" | "different" | "none";
+  throws: ThrownError[];
 };
 
-export type JSNamespace = {
+export type JSNamespace = Annotations & {
   type: "namespace";
   name: string;
   id: string;
@@ -43,7 +176,14 @@ export type JSNamespace = {
   staticMethods: JSMethod[];
 };
 
-export type JSClass = {
+export type InternalSlot = {
+  /** E.g. `[[MapData]]` */
+  name: string;
+  /** ID of the section that lists it */
+  id: string;
+};
+
+export type JSClass = Annotations & {
   type: "class";
   name: string;
   id: string;
@@ -55,16 +195,18 @@ export type JSClass = {
   prototypeProperties: JSProperty[];
   instanceMethods: JSMethod[];
   instanceProperties: JSProperty[];
+  /** The internal slots that every instance has */
+  internalSlots: InternalSlot[];
 };
 
-export type JSGlobalProperty = {
+export type JSGlobalProperty = Annotations & {
   type: "global-property";
   name: string;
   id: string;
   attributes: `${"w" | ""}${"e" | ""}${"c" | ""}`;
 };
 
-export type JSFunction = {
+export type JSFunction = Annotations & {
   type: "function";
   name: string;
   id: string;
@@ -75,8 +217,250 @@ export type JSFunction = {
 
 export type JSGlobal = JSNamespace | JSClass | JSGlobalProperty | JSFunction;
 
+export type JSMember = JSProperty | JSMethod | JSConstructor;
+
+/**
+ * Where a member lives: on the constructor itself, on the prototype, or on
+ * each instance.
+ */
+export type JSMemberKind = "constructor" | "static" | "prototype" | "instance";
+
+export type JSMemberEntry = {
+  /**
+   * Dotted path of the member, such as `Array.prototype.at` or
+   * `Symbol.prototype[Symbol.toPrimitive]`. Instance properties, which are
+   * not reachable from the global, use `RegExp#lastIndex`.
+   */
+  path: string;
+  owner: JSNamespace | JSClass;
+  kind: JSMemberKind;
+  member: JSMember;
+};
+
+export type WellKnownIntrinsic = {
+  /** The intrinsic name, such as `%ArrayIteratorPrototype%` */
+  name: string;
+  /** How to access it from the global object, if it's reachable by name */
+  path: string | undefined;
+  /** ID of the section defining it */
+  id: string;
+  /** Name of the `JSGlobal` entry it corresponds to */
+  global: string | undefined;
+};
+
+export type AbstractOperationParameter = {
+  name: string;
+  type: string | undefined;
+  optional: boolean;
+};
+
+export type AbstractOperation = {
+  type:
+    | "abstract-operation"
+    | "host-defined-abstract-operation"
+    | "implementation-defined-abstract-operation"
+    | "concrete-method"
+    | "internal-method"
+    | "numeric-method"
+    | "syntax-directed-operation";
+  name: string;
+  id: string;
+  /** For concrete and internal methods, the kind of object they belong to */
+  for: string | undefined;
+  parameters: AbstractOperationParameter[];
+  returnType: string | undefined;
+  description: string | undefined;
+};
+
+export type GrammarArgument = {
+  name: string;
+  /** `+` sets the parameter, `~` clears it, `?` passes it through */
+  modifier: "+" | "~" | "?";
+};
+
+export type GrammarSymbol =
+  | { type: "terminal"; value: string; optional: boolean }
+  | {
+      type: "nonterminal";
+      name: string;
+      arguments: GrammarArgument[];
+      optional: boolean;
+    }
+  | { type: "code-point"; name: string }
+  | {
+      type: "lookahead";
+      operator: "=" | "≠" | "∈" | "∉";
+      /** Each alternative is a sequence of symbols */
+      values: GrammarSymbol[][];
+    }
+  | { type: "no-symbol-here"; symbol: string }
+  | { type: "but-not"; exclusions: GrammarSymbol[] }
+  | { type: "prose"; text: string }
+  /** `[> but only if …]`, a condition on the symbols before it */
+  | { type: "constraint"; text: string }
+  | { type: "empty" };
+
+export type GrammarAlternative = {
+  /** `[+In]` and `[~In]` conditions on the parameters of the production */
+  guards: { name: string; present: boolean }[];
+  symbols: GrammarSymbol[];
+  label: string | undefined;
+};
+
+export type GrammarProduction = {
+  name: string;
+  /** ID of the section the production is defined in */
+  id: string;
+  grammar: "syntactic" | "lexical" | "regexp" | "numeric-string";
+  parameters: string[];
+  oneOf: boolean;
+  alternatives: GrammarAlternative[];
+};
+
+export type MDNMismatch = {
+  /** Path of the intrinsic, as used by the query index */
+  path: string;
+  slug: string;
+  field:
+    | "parameters"
+    | "length"
+    | "property-type"
+    | "placement"
+    | "usage"
+    | "deprecated";
+  /**
+   * For `parameters`, the maximum number of arguments, `null` if variadic.
+   * For `length`, the spec's `length` and the fewest arguments MDN shows.
+   */
+  spec: unknown;
+  mdn: unknown;
+};
+
+export type MDNReport = {
+  [global: string]: {
+    /** Intrinsics that have no page */
+    missingPages: string[];
+    /** Slugs of pages that match no intrinsic */
+    orphanPages: string[];
+    mismatches: MDNMismatch[];
+  };
+};
+
+export type ArityRange = { min: number; max: number | null };
+
+export type TypeScriptReport = {
+  [global: string]: {
+    /** Spec members that TypeScript doesn't declare */
+    undeclared: string[];
+    /** TypeScript declarations that the spec doesn't have */
+    unspecified: string[];
+    placement: {
+      member: string;
+      spec: "static" | "instance";
+      typescript: "static" | "instance";
+    }[];
+    arity: { member: string; spec: ArityRange; typescript: ArityRange }[];
+  };
+};
+
+export type ConformanceResult = {
+  path: string;
+  check: "presence" | "attributes" | "length" | "extends";
+  /**
+   * Missing things, and things that differ from what the spec states, are
+   * attributed to the engine. Differences from a default the scraper assumed
+   * because the spec said nothing, and data properties observed as accessors
+   * or the other way around, are attributed to the scraper. `unresolved`
+   * means the intrinsic isn't reachable from the probe, or an instance
+   * couldn't be constructed.
+   */
+  status: "pass" | "engine-gap" | "scraper-bug" | "unresolved";
+  expected: unknown;
+  actual: unknown;
+};
+
+/** A structural surprise in the spec, recorded by `scrape --diagnostics` */
+export type Diagnostic = {
+  /** Errors lose data; warnings only mean the scraper may need updating */
+  severity: "error" | "warning";
+  message: string;
+  /** The section the anomaly was found in, if known */
+  id: string | undefined;
+  title: string | undefined;
+  /** The start of the section's text */
+  excerpt: string | undefined;
+};
+
+/** Early error rules, keyed by the left-hand and right-hand sides */
+export type EarlyErrors = {
+  [lhs: string]: { [rhs: string]: string[] };
+};
+
+export type EarlyErrorReference = {
+  /**
+   * `nonterminal` for `|FormalParameters|`, `operation` for abstract and
+   * syntax-directed operations such as `BoundNames`, and `section` for other
+   * cross-references
+   */
+  type: "nonterminal" | "operation" | "section";
+  name: string;
+  /** The section defining it, if found */
+  id: string | undefined;
+  url: string | undefined;
+};
+
+export type EarlyErrorRule = {
+  /** The left-hand side, without grammar parameters */
+  lhs: string;
+  /** The right-hand side, without grammar arguments */
+  rhs: string;
+  /** E.g. `UnaryExpression : delete UnaryExpression` */
+  production: string;
+  /** Grammar parameters of the left-hand side, e.g. `["Yield", "Await"]` */
+  parameters: string[];
+  /** Whether this comes from a bullet or paragraph, or from a note */
+  kind: "rule" | "note";
+  text: string;
+  references: EarlyErrorReference[];
+  /** ID of the Early Errors section */
+  id: string;
+  url: string | undefined;
+};
+
+export type SpecURLs = {
+  [id: string]: { singlePage: string; multiPage: string };
+};
+
 export type Section = {
   title: string;
   id: string;
   children: Section[];
 };
+
+export type MemberChange = {
+  global: string;
+  member: string;
+  type: (JSProperty | JSMethod | JSConstructor)["type"];
+};
+
+export type FieldChange = {
+  global: string;
+  /** Undefined if the field belongs to the global itself */
+  member: string | undefined;
+  field: "length" | "parameters" | "attributes" | "usage" | "extends";
+  old: unknown;
+  new: unknown;
+};
+
+export type EarlyErrorChange = {
+  lhs: string;
+  rhs: string;
+  rule: string;
+};
+
+export type Changelog = {
+  globals: { added: string[]; removed: string[] };
+  members: { added: MemberChange[]; removed: MemberChange[] };
+  fields: FieldChange[];
+  earlyErrors: { added: EarlyErrorChange[]; removed: EarlyErrorChange[] };
+};
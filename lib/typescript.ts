@@ -0,0 +1,305 @@
+import FS from "node:fs/promises";
+import Path from "node:path";
+import ts from "typescript";
+import type { IntrinsicsIndex } from "./query.js";
+import type {
+  ArityRange,
+  JSClass,
+  JSMember,
+  JSNamespace,
+  TypeScriptReport,
+} from "./types.js";
+
+type GlobalReport = TypeScriptReport[string];
+type Placement = GlobalReport["placement"][number]["spec"];
+type SpecMember = Exclude<JSMember, { type: "constructor" }>;
+
+// Every interface has the `constructor` of Object.prototype
+const unreportedKeys = new Set(["constructor"]);
+
+type Declarations = {
+  checker: ts.TypeChecker;
+  location: ts.SourceFile;
+  globals: Map<string, ts.Symbol>;
+};
+
+type DeclaredSide = {
+  type: ts.Type | undefined;
+  /** Properties declared by the interface itself or its base interfaces */
+  members: Map<string, ts.Symbol>;
+};
+
+// Everything from lib.es5.d.ts to lib.esnext.*.d.ts, without the DOM
+async function getLibFiles(): Promise<string[]> {
+  const libDir = Path.dirname(ts.getDefaultLibFilePath({}));
+  return (await FS.readdir(libDir))
+    .filter(
+      (f) =>
+        /^lib\.(?:es\d+|esnext|decorators)(?:\.[\w.]+)?\.d\.ts$/u.test(f) &&
+        !f.endsWith(".full.d.ts"),
+    )
+    .map((f) => Path.join(libDir, f));
+}
+
+async function loadDeclarations(): Promise<Declarations> {
+  const program = ts.createProgram(await getLibFiles(), {
+    noLib: true,
+    target: ts.ScriptTarget.ESNext,
+    types: [],
+  });
+  const checker = program.getTypeChecker();
+  const location = program.getSourceFiles()[0]!;
+  const globals = new Map(
+    checker
+      .getSymbolsInScope(location, ts.SymbolFlags.Value)
+      .map((s) => [s.name, s]),
+  );
+  return { checker, location, globals };
+}
+
+// Well-known symbol keys are named like __@iterator@123
+function getMemberName(symbol: ts.Symbol): string {
+  const wellKnown = String(symbol.escapedName).match(/^__@(?<name>\w+)@\d+$/u)
+    ?.groups!.name;
+  return wellKnown ? `[Symbol.${wellKnown}]` : symbol.name;
+}
+
+function getSpecName(member: SpecMember) {
+  return member.key.kind === "symbol"
+    ? `[Symbol.${member.key.wellKnown}]`
+    : member.key.value;
+}
+
+function formatMember(placement: Placement, name: string): string {
+  if (placement === "static") return name;
+  return name.startsWith("[") ? `prototype${name}` : `prototype.${name}`;
+}
+
+function getArity(
+  { checker, location }: Declarations,
+  symbol: ts.Symbol,
+): ArityRange | undefined {
+  const signatures = checker
+    .getTypeOfSymbolAtLocation(symbol, location)
+    .getCallSignatures();
+  if (!signatures.length) return undefined;
+  const ranges = signatures.map((signature) => {
+    const params = signature.parameters.map(
+      (p) => p.valueDeclaration as ts.ParameterDeclaration,
+    );
+    const rest = params.some((p) => p.dotDotDotToken);
+    const optional = params.filter(
+      (p) => p.questionToken || p.initializer || p.dotDotDotToken,
+    ).length;
+    return {
+      min: params.length - optional,
+      max: rest ? null : params.length,
+    };
+  });
+  return {
+    min: Math.min(...ranges.map((r) => r.min)),
+    max: ranges.some((r) => r.max === null)
+      ? null
+      : Math.max(...ranges.map((r) => r.max!)),
+  };
+}
+
+// Nested names, such as `Intl.Collator`, are properties of their namespace
+function findDeclaration(
+  { checker, location, globals }: Declarations,
+  name: string,
+): ts.Symbol | undefined {
+  const [first, ...rest] = name.split(".");
+  let symbol = globals.get(first!);
+  for (const part of rest) {
+    symbol =
+      symbol &&
+      checker.getTypeOfSymbolAtLocation(symbol, location).getProperty(part);
+  }
+  return symbol;
+}
+
+function getDeclaredMembers(declarations: Declarations, name: string) {
+  const { checker, location } = declarations;
+  const symbol = findDeclaration(declarations, name);
+  if (!symbol) return undefined;
+  const staticType = checker.getTypeOfSymbolAtLocation(symbol, location);
+  // Intl constructors are declared without a `prototype`, which is then the
+  // `any` of Function, but with what `new` returns
+  const prototype = checker
+    .getPropertiesOfType(staticType)
+    .find((p) => p.name === "prototype");
+  const instanceType = prototype
+    ? checker.getTypeOfSymbolAtLocation(prototype, location)
+    : staticType.getConstructSignatures()[0]?.getReturnType();
+  const toSide = (type: ts.Type | undefined): DeclaredSide => ({
+    type,
+    members: new Map(
+      (type ? checker.getPropertiesOfType(type) : []).map((s) => [
+        getMemberName(s),
+        s,
+      ]),
+    ),
+  });
+  return { static: toSide(staticType), instance: toSide(instanceType) };
+}
+
+/**
+ * Looks a spec member up among the declared members, then among those the
+ * type gets from `Object` or `Function`, such as `toString`, which
+ * interfaces don't redeclare when the spec overrides them.
+ */
+function findMember(
+  { checker }: Declarations,
+  side: DeclaredSide,
+  name: string,
+): ts.Symbol | undefined {
+  if (side.members.has(name)) return side.members.get(name);
+  if (!side.type || name.startsWith("[")) return undefined;
+  return checker.getPropertyOfType(checker.getApparentType(side.type), name);
+}
+
+function checkGlobal(
+  declarations: Declarations,
+  g: JSClass | JSNamespace,
+  chain: JSClass[],
+): GlobalReport {
+  const declared = getDeclaredMembers(declarations, g.name);
+  const report: GlobalReport = {
+    undeclared: [],
+    unspecified: [],
+    placement: [],
+    arity: [],
+  };
+  if (!declared) {
+    report.undeclared.push(g.name);
+    return report;
+  }
+  const specMembers = new Map<
+    string,
+    { placement: Placement; member: SpecMember }
+  >();
+  // Inherited members are declared on the subclass in TypeScript
+  for (const cls of [g, ...chain]) {
+    const groups: [Placement, SpecMember[]][] = [
+      ["static", [...cls.staticProperties, ...cls.staticMethods]],
+    ];
+    if (cls.type === "class") {
+      groups.push([
+        "instance",
+        [
+          ...cls.prototypeProperties,
+          ...cls.instanceMethods,
+          ...cls.instanceProperties,
+        ],
+      ]);
+    }
+    for (const [placement, members] of groups) {
+      for (const member of members) {
+        const name = getSpecName(member);
+        const key = `${placement}:${name}`;
+        if (!unreportedKeys.has(name) && !specMembers.has(key))
+          specMembers.set(key, { placement, member });
+      }
+    }
+  }
+  for (const { placement, member } of specMembers.values()) {
+    const name = getSpecName(member);
+    const other = placement === "static" ? "instance" : "static";
+    const symbol = findMember(declarations, declared[placement], name);
+    if (!symbol) {
+      if (
+        declared[other].members.has(name) &&
+        !specMembers.has(`${other}:${name}`)
+      ) {
+        report.placement.push({
+          member: name,
+          spec: placement,
+          typescript: other,
+        });
+      } else {
+        report.undeclared.push(formatMember(placement, name));
+      }
+      continue;
+    }
+    if (member.type !== "method") continue;
+    const arity = getArity(declarations, symbol);
+    const { required, optional, rest } = member.parameters;
+    const spec = { min: required, max: rest ? null : required + optional };
+    if (arity && (arity.min !== spec.min || arity.max !== spec.max))
+      report.arity.push({ member: name, spec, typescript: arity });
+  }
+  for (const placement of ["static", "instance"] as const) {
+    for (const name of declared[placement].members.keys()) {
+      if (
+        !unreportedKeys.has(name) &&
+        !specMembers.has(`${placement}:${name}`) &&
+        !report.placement.some((p) => p.member === name)
+      )
+        report.unspecified.push(formatMember(placement, name));
+    }
+  }
+  return report;
+}
+
+// Globals, and classes such as Intl.Collator that live in a global namespace
+function isReachable(index: IntrinsicsIndex, g: JSClass | JSNamespace) {
+  if (g.global) return true;
+  const [namespace] = g.name.split(".");
+  return (
+    g.name.includes(".") &&
+    index.getGlobal(namespace!, "namespace")?.global === true
+  );
+}
+
+/**
+ * Compares the global classes and namespaces, and those nested in global
+ * namespaces, with the `lib.es*.d.ts` declarations bundled with the installed
+ * TypeScript.
+ */
+export async function checkTypeScript(
+  index: IntrinsicsIndex,
+): Promise<TypeScriptReport> {
+  const declarations = await loadDeclarations();
+  const report: TypeScriptReport = {};
+  for (const g of index.globals()) {
+    if (g.type !== "class" && g.type !== "namespace") continue;
+    if (!isReachable(index, g)) continue;
+    const result = checkGlobal(declarations, g, index.getExtendsChain(g.name));
+    // The classes of a namespace are checked on their own
+    result.unspecified = result.unspecified.filter(
+      (m) => !index.getGlobal(`${g.name}.${m}`),
+    );
+    if (
+      result.undeclared.length ||
+      result.unspecified.length ||
+      result.placement.length ||
+      result.arity.length
+    )
+      report[g.name] = result;
+  }
+  return report;
+}
+
+export function formatTypeScriptReport(report: TypeScriptReport): string {
+  const formatRange = (r: ArityRange) => `${r.min}–${r.max ?? "∞"}`;
+  const sections = Object.entries(report).map(([global, r]) => {
+    const lines = [
+      ...r.undeclared.map((m) => `- Undeclared: \`${m}\``),
+      ...r.unspecified.map((m) => `- Not in spec: \`${m}\``),
+      ...r.placement.map(
+        (p) => `- \`${p.member}\` is ${p.spec} in spec, ${p.typescript} in TS`,
+      ),
+      ...r.arity.map(
+        (a) =>
+          `- \`${a.member}\` takes ${formatRange(
+            a.spec,
+          )} arguments in spec, ${formatRange(a.typescript)} in TS`,
+      ),
+    ];
+    return `## ${global}\n\n${lines.join("\n")}\n`;
+  });
+  return `# TypeScript report (${ts.version})\n\n${
+    sections.join("\n") || "No issues found.\n"
+  }`;
+}
@@ -1,11 +1,21 @@
 import { fileURLToPath } from "node:url";
 import fs from "node:fs/promises";
 import * as Cheerio from "cheerio";
+import type { CheerioAPI } from "cheerio";
+import type { SpecSource } from "./types.js";
 
 export function generatedPath(name: string): string {
   return fileURLToPath(new URL(`../generated/${name}`, import.meta.url));
 }
 
+export function schemaPath(name: string): string {
+  return fileURLToPath(new URL(`../schemas/${name}`, import.meta.url));
+}
+
+export function loadSpec(spec: SpecSource): CheerioAPI {
+  return typeof spec === "string" ? Cheerio.load(spec) : spec;
+}
+
 export async function getSpec() {
   return await fs
     .readFile(generatedPath("spec.html"))
@@ -17,6 +27,39 @@ export async function getSpec() {
     });
 }
 
+/**
+ * Built specs wrap the clauses in a container, prefix each heading with its
+ * section number, and render `*value*` and `_var_` as elements; undo this to
+ * make them look like the source spec.html. Editions before ES2016 were not
+ * built with ecmarkup and use `<section>` for clauses.
+ */
+export function normalizeBuiltSpec(content: string): string {
+  const $ = Cheerio.load(content);
+  const sections = $("section[id]");
+  if (!$("#spec-container").length && !sections.length) return content;
+  sections.each((_, el) => {
+    el.tagName = "emu-clause";
+  });
+  $("h1 > .secnum").remove();
+  $("emu-val").each((_, el) => {
+    $(el).replaceWith(`*${$(el).html()!}*`);
+  });
+  $("emu-clause var, emu-annex var").each((_, el) => {
+    $(el).replaceWith(`_${$(el).html()!}_`);
+  });
+  const container = $("#spec-container");
+  $("body").html(
+    container.length
+      ? container.html()!
+      : $("emu-clause, emu-annex")
+          .filter((_, el) => !$(el).parents("emu-clause, emu-annex").length)
+          .get()
+          .map((el) => $.html(el))
+          .join("\n"),
+  );
+  return $.html();
+}
+
 export function assert(
   condition: unknown,
   message?: string,
@@ -0,0 +1,121 @@
+import type { CheerioAPI } from "cheerio";
+import { loadSpec } from "./utils.js";
+import type {
+  JSGlobal,
+  Section,
+  SpecSource,
+  WellKnownIntrinsic,
+} from "./types.js";
+
+const intrinsicPattern = /^%[\w.]+%$/u;
+
+function normalize(text: string): string {
+  return text.replace(/\s+/gu, " ").trim();
+}
+
+function getTableEntries($: CheerioAPI): Omit<WellKnownIntrinsic, "global">[] {
+  return $("#table-well-known-intrinsic-objects tr")
+    .get()
+    .map((row) => $(row).children("td"))
+    .filter((cells) => intrinsicPattern.test(normalize(cells.eq(0).text())))
+    .map((cells) => {
+      const path = normalize(cells.eq(1).text()).replace(/^[`"]+|[`"]+$/gu, "");
+      const href = cells.eq(2).find("emu-xref").attr("href");
+      return {
+        name: normalize(cells.eq(0).text()),
+        path: path || undefined,
+        id: href?.slice(1) ?? "table-well-known-intrinsic-objects",
+      };
+    });
+}
+
+function getDefinedEntries(
+  $: CheerioAPI,
+  toc: Section[],
+): Omit<WellKnownIntrinsic, "global">[] {
+  const entries = $("dfn")
+    .get()
+    .filter((el) => intrinsicPattern.test(normalize($(el).text())))
+    .map((el) => ({
+      name: normalize($(el).text()),
+      path: undefined,
+      id: $(el).closest("emu-clause, emu-annex").attr("id")!,
+    }));
+  (function findIntrinsicSections(sections: Section[]) {
+    for (const section of sections) {
+      const name = section.title.match(
+        /^(?:The )?(?<name>%[\w.]+%)(?: Intrinsic)?(?: Object| \(.*\))?$/u,
+      )?.groups!.name;
+      if (name) entries.push({ name, path: undefined, id: section.id });
+      findIntrinsicSections(section.children);
+    }
+  })(toc);
+  return entries;
+}
+
+// %Foo.bar% is reachable as long as %Foo% is
+function resolvePath(
+  name: string,
+  entries: Map<string, Omit<WellKnownIntrinsic, "global">>,
+): string | undefined {
+  const known = entries.get(name)?.path;
+  if (known) return known;
+  const inner = name.slice(1, -1);
+  const dot = inner.indexOf(".");
+  if (dot === -1) return undefined;
+  const base = resolvePath(`%${inner.slice(0, dot)}%`, entries);
+  return base && `${base}${inner.slice(dot)}`;
+}
+
+function findGlobal(
+  name: string,
+  path: string | undefined,
+  intrinsics: JSGlobal[],
+): string | undefined {
+  const candidates = [
+    name,
+    name.slice(1, -1),
+    name.slice(1, -1).replace(/\.prototype$/u, ""),
+    ...(path ? [path, path.replace(/\.prototype$/u, "")] : []),
+  ];
+  return intrinsics.find((g) => candidates.includes(g.name))?.name;
+}
+
+/**
+ * Every `%Name%` intrinsic of `spec`, linked to the entry of `intrinsics` it
+ * corresponds to, if any.
+ */
+export function collectWellKnownIntrinsics(
+  toc: Section[],
+  spec: SpecSource,
+  intrinsics: JSGlobal[],
+): WellKnownIntrinsic[] {
+  const $ = loadSpec(spec);
+  const entries = new Map<string, Omit<WellKnownIntrinsic, "global">>();
+  // The table takes precedence, since it has the access paths
+  for (const entry of [...getTableEntries($), ...getDefinedEntries($, toc)])
+    if (!entries.has(entry.name)) entries.set(entry.name, entry);
+  return [...entries.values()].map((entry) => {
+    const path = resolvePath(entry.name, entries);
+    return {
+      ...entry,
+      path,
+      global: findGlobal(entry.name, path, intrinsics),
+    };
+  });
+}
+
+/**
+ * Rewrites `extends` clauses that still refer to intrinsics by their
+ * `%Name%` to the name of the corresponding `JSGlobal`.
+ */
+export function resolveExtends(
+  intrinsics: JSGlobal[],
+  wellKnownIntrinsics: WellKnownIntrinsic[],
+): void {
+  for (const g of intrinsics) {
+    if (g.type !== "class" || !g.extends?.startsWith("%")) continue;
+    const entry = wellKnownIntrinsics.find((i) => i.name === g.extends);
+    if (entry?.global) g.extends = entry.global;
+  }
+}
@@ -0,0 +1,32 @@
+import fs from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { assert } from "../lib/utils.js";
+import { getIntrinsicsIndex } from "../lib/index.js";
+import { checkMDN, formatMDNReport } from "../lib/mdn.js";
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    // Print JSON instead of Markdown
+    json: { type: "boolean", default: false },
+    // Write both <out>.md and <out>.json instead of printing
+    out: { type: "string" },
+  },
+});
+
+assert(
+  positionals.length === 1,
+  "Usage: npm run check-mdn -- <path to mdn/content> [--json] [--out <path>]",
+);
+
+const report = await checkMDN(positionals[0]!, await getIntrinsicsIndex());
+
+if (options.out) {
+  await fs.writeFile(`${options.out}.md`, formatMDNReport(report));
+  await fs.writeFile(`${options.out}.json`, JSON.stringify(report, null, 2));
+  console.log(`Wrote ${options.out}.md and ${options.out}.json`);
+} else if (options.json) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  console.log(formatMDNReport(report));
+}
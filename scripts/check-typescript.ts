@@ -0,0 +1,25 @@
+import fs from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { getIntrinsicsIndex } from "../lib/index.js";
+import { checkTypeScript, formatTypeScriptReport } from "../lib/typescript.js";
+
+const { values: options } = parseArgs({
+  options: {
+    // Print JSON instead of Markdown
+    json: { type: "boolean", default: false },
+    // Write both <out>.md and <out>.json instead of printing
+    out: { type: "string" },
+  },
+});
+
+const report = await checkTypeScript(await getIntrinsicsIndex());
+
+if (options.out) {
+  await fs.writeFile(`${options.out}.md`, formatTypeScriptReport(report));
+  await fs.writeFile(`${options.out}.json`, JSON.stringify(report, null, 2));
+  console.log(`Wrote ${options.out}.md and ${options.out}.json`);
+} else if (options.json) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  console.log(formatTypeScriptReport(report));
+}
@@ -0,0 +1,56 @@
+import fs from "node:fs/promises";
+import OS from "node:os";
+import Path from "node:path";
+import { execFile } from "node:child_process";
+import { parseArgs, promisify } from "node:util";
+import { getIntrinsics } from "../lib/index.js";
+import {
+  buildProbeScript,
+  checkConformance,
+  formatConformanceReport,
+} from "../lib/conformance.js";
+
+const { values: options } = parseArgs({
+  options: {
+    // Command of another engine's CLI, e.g. "d8" or "qjs --std"; the probe
+    // script path is appended to it. Defaults to this Node process.
+    engine: { type: "string" },
+    // Print JSON instead of Markdown
+    json: { type: "boolean", default: false },
+    // Write both <out>.md and <out>.json instead of printing
+    out: { type: "string" },
+  },
+});
+
+const intrinsics = await getIntrinsics();
+
+async function runEngine(command: string): Promise<string> {
+  const dir = await fs.mkdtemp(Path.join(OS.tmpdir(), "es-scraper-"));
+  const script = Path.join(dir, "probe.js");
+  await fs.writeFile(script, buildProbeScript(intrinsics));
+  try {
+    const [bin, ...args] = command.split(" ").filter(Boolean);
+    const { stdout } = await promisify(execFile)(bin!, [...args, script], {
+      maxBuffer: 64 * 1024 * 1024,
+      timeout: 60_000,
+    });
+    return stdout.trim().split("\n").at(-1)!;
+  } finally {
+    await fs.rm(dir, { recursive: true });
+  }
+}
+
+const results = checkConformance(
+  intrinsics,
+  options.engine ? await runEngine(options.engine) : undefined,
+);
+
+if (options.out) {
+  await fs.writeFile(`${options.out}.md`, formatConformanceReport(results));
+  await fs.writeFile(`${options.out}.json`, JSON.stringify(results, null, 2));
+  console.log(`Wrote ${options.out}.md and ${options.out}.json`);
+} else if (options.json) {
+  console.log(JSON.stringify(results, null, 2));
+} else {
+  console.log(formatConformanceReport(results));
+}
@@ -0,0 +1,95 @@
+import "../lib/polyfill.js";
+
+import fs from "node:fs/promises";
+import Path from "node:path";
+import { parseArgs } from "node:util";
+import * as Cheerio from "cheerio";
+import { assert, normalizeBuiltSpec } from "../lib/utils.js";
+import { collectIntrinsics } from "../lib/intrinsics.js";
+import { buildTOC } from "../lib/toc.js";
+import { collectEarlyErrors } from "../lib/early-errors.js";
+import {
+  collectWellKnownIntrinsics,
+  resolveExtends,
+} from "../lib/well-known-intrinsics.js";
+import { diffScrapes, formatChangelog } from "../lib/diff.js";
+import { parseUnversioned } from "../lib/schemas.js";
+import type { EarlyErrors, JSGlobal } from "../lib/types.js";
+
+type Snapshot = Parameters<typeof diffScrapes>[0];
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    // Print JSON instead of Markdown
+    json: { type: "boolean", default: false },
+    // Write both <out>.md and <out>.json instead of printing
+    out: { type: "string" },
+  },
+});
+
+assert(
+  positionals.length === 2,
+  "Usage: npm run diff -- <old> <new> [--json] [--out <path>]",
+);
+
+// Snapshots from before the format version have no envelope
+async function readJSON(path: string) {
+  return parseUnversioned(await fs.readFile(path, "utf8")) as
+    | JSGlobal[]
+    | EarlyErrors;
+}
+
+// A missing file is an empty side, but a corrupt one is an error
+async function readOptionalJSON(path: string) {
+  try {
+    return await readJSON(path);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw e;
+  }
+}
+
+// Scraped like `npm run scrape` does, without proposals or ECMA-402
+async function scrapeSpec(path: string): Promise<Snapshot> {
+  const $ = Cheerio.load(normalizeBuiltSpec(await fs.readFile(path, "utf8")));
+  const toc = buildTOC($);
+  const intrinsics = collectIntrinsics(toc, $);
+  resolveExtends(intrinsics, collectWellKnownIntrinsics(toc, $, intrinsics));
+  return { intrinsics, earlyErrors: collectEarlyErrors(toc, $) };
+}
+
+// Each side is either a directory holding intrinsics.json and/or
+// early-errors.json (e.g. a copy of generated/), one of these files, or a
+// spec.html or built index.html to scrape
+async function readSnapshot(path: string): Promise<Snapshot> {
+  if (path.endsWith(".html")) return scrapeSpec(path);
+  if (!(await fs.stat(path)).isDirectory()) {
+    const data = await readJSON(path);
+    return Array.isArray(data) ? { intrinsics: data } : { earlyErrors: data };
+  }
+  const [intrinsics, earlyErrors] = await Promise.all(
+    ["intrinsics.json", "early-errors.json"].map((name) =>
+      readOptionalJSON(Path.join(path, name)),
+    ),
+  );
+  return {
+    ...(intrinsics && { intrinsics: intrinsics as JSGlobal[] }),
+    ...(earlyErrors && { earlyErrors: earlyErrors as EarlyErrors }),
+  };
+}
+
+// One at a time, since each scraped spec takes a lot of memory
+const oldSnapshot = await readSnapshot(positionals[0]!);
+const newSnapshot = await readSnapshot(positionals[1]!);
+const changelog = diffScrapes(oldSnapshot, newSnapshot);
+
+if (options.out) {
+  await fs.writeFile(`${options.out}.md`, formatChangelog(changelog));
+  await fs.writeFile(`${options.out}.json`, JSON.stringify(changelog, null, 2));
+  console.log(`Wrote ${options.out}.md and ${options.out}.json`);
+} else if (options.json) {
+  console.log(JSON.stringify(changelog, null, 2));
+} else {
+  console.log(formatChangelog(changelog));
+}
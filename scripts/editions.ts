@@ -0,0 +1,31 @@
+import "../lib/polyfill.js";
+
+import fs from "node:fs/promises";
+import Path from "node:path";
+import { parseArgs } from "node:util";
+import * as Cheerio from "cheerio";
+import { generatedPath, normalizeBuiltSpec } from "../lib/utils.js";
+import { collectIntrinsics } from "../lib/intrinsics.js";
+import { buildTOC } from "../lib/toc.js";
+import { mergeEditions, type Edition } from "../lib/editions.js";
+import { serializeVersioned } from "../lib/schemas.js";
+
+// Oldest first, as `ES2015=path/to/index.html` or just the path
+const { positionals } = parseArgs({ allowPositionals: true, options: {} });
+
+const editions: Edition[] = [];
+// One at a time, since each parsed edition takes a lot of memory
+for (const arg of positionals) {
+  const { name, path } = arg.match(/^(?:(?<name>[^=]+)=)?(?<path>.*)$/u)!
+    .groups!;
+  const $ = Cheerio.load(normalizeBuiltSpec(await fs.readFile(path!, "utf8")));
+  const label = name ?? Path.basename(path!, ".html");
+  editions.push({ name: label, intrinsics: collectIntrinsics(buildTOC($), $) });
+  console.log(`Scraped ${label}`);
+}
+
+await fs.writeFile(
+  generatedPath("intrinsics-history.json"),
+  serializeVersioned("intrinsics-history.json", mergeEditions(editions)),
+);
+console.log("Wrote intrinsics-history.json");
@@ -0,0 +1,223 @@
+import fs from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import ts from "typescript";
+import prettier from "prettier";
+import { schemaPath } from "../lib/utils.js";
+import {
+  formatVersion,
+  schemaFiles,
+  type JSONSchema,
+  type VersionedFile,
+} from "../lib/schemas.js";
+
+// Generates schemas/*.schema.json from the type aliases in lib/types.ts. Only
+// the kinds of types that the generated files use are supported.
+
+const typesPath = fileURLToPath(new URL("../lib/types.ts", import.meta.url));
+const source = ts.createSourceFile(
+  typesPath,
+  await fs.readFile(typesPath, "utf8"),
+  ts.ScriptTarget.Latest,
+  true,
+);
+const aliases = new Map(
+  source.statements
+    .filter(ts.isTypeAliasDeclaration)
+    .map((decl) => [decl.name.text, decl]),
+);
+
+const roots: { [file in VersionedFile]: string } = {
+  "intrinsics.json": "JSGlobal[]",
+  "early-errors.json": "EarlyErrors",
+  "early-error-rules.json": "EarlyErrorRule[]",
+  "toc.json": "Section[]",
+  "algorithms.json": "Algorithms",
+  "call-graph.json": "CallGraph",
+  "abstract-operations.json": "AbstractOperation[]",
+  "well-known-intrinsics.json": "WellKnownIntrinsic[]",
+  "intrinsics-history.json": "JSGlobal[]",
+};
+
+function getDescription(node: ts.Node): string | undefined {
+  const doc = ts.getJSDocCommentsAndTags(node).find(ts.isJSDoc);
+  return ts.getTextOfJSDocComment(doc?.comment)?.replace(/\s+/gu, " ");
+}
+
+function isUndefined(node: ts.TypeNode): boolean {
+  return node.kind === ts.SyntaxKind.UndefinedKeyword;
+}
+
+function getAlias(node: ts.TypeNode): ts.TypeAliasDeclaration | undefined {
+  if (!ts.isTypeReferenceNode(node) || !ts.isIdentifier(node.typeName))
+    return undefined;
+  return aliases.get(node.typeName.text);
+}
+
+// Every string the type can be, if it's made of string literals only
+function expandStrings(node: ts.TypeNode): string[] | undefined {
+  if (ts.isLiteralTypeNode(node) && ts.isStringLiteral(node.literal))
+    return [node.literal.text];
+  if (ts.isParenthesizedTypeNode(node)) return expandStrings(node.type);
+  const alias = getAlias(node);
+  if (alias) return expandStrings(alias.type);
+  if (ts.isUnionTypeNode(node)) {
+    const parts = node.types.map(expandStrings);
+    return parts.every(Boolean) ? parts.flatMap((p) => p!) : undefined;
+  }
+  if (ts.isTemplateLiteralTypeNode(node)) {
+    let results = [node.head.text];
+    for (const span of node.templateSpans) {
+      const values = expandStrings(span.type);
+      if (!values) return undefined;
+      results = results.flatMap((r) =>
+        values.map((v) => `${r}${v}${span.literal.text}`),
+      );
+    }
+    return results;
+  }
+  return undefined;
+}
+
+// Intersections are flattened into plain objects, distributing over unions,
+// so that each alternative can forbid unknown properties
+function getObjectAlternatives(
+  node: ts.TypeNode,
+): ts.TypeElement[][] | undefined {
+  if (ts.isTypeLiteralNode(node)) return [[...node.members]];
+  if (ts.isParenthesizedTypeNode(node)) return getObjectAlternatives(node.type);
+  const alias = getAlias(node);
+  if (alias) return getObjectAlternatives(alias.type);
+  const parts =
+    ts.isUnionTypeNode(node) || ts.isIntersectionTypeNode(node)
+      ? node.types.map(getObjectAlternatives)
+      : [];
+  if (!parts.length || !parts.every(Boolean)) return undefined;
+  if (ts.isUnionTypeNode(node)) return parts.flatMap((p) => p!);
+  return parts.reduce((acc, p) =>
+    acc!.flatMap((a) => p!.map((b) => [...a, ...b])),
+  );
+}
+
+const keywords: { [kind: number]: JSONSchema } = {
+  [ts.SyntaxKind.StringKeyword]: { type: "string" },
+  [ts.SyntaxKind.NumberKeyword]: { type: "number" },
+  [ts.SyntaxKind.BooleanKeyword]: { type: "boolean" },
+  [ts.SyntaxKind.UnknownKeyword]: {},
+};
+
+function withDescription(schema: JSONSchema, node: ts.Node): JSONSchema {
+  const description = getDescription(node);
+  return description ? { ...schema, description } : schema;
+}
+
+function createGenerator() {
+  const defs: { [name: string]: JSONSchema } = {};
+
+  function makeObject(members: ts.TypeElement[]): JSONSchema {
+    const properties: { [name: string]: JSONSchema } = {};
+    const required: string[] = [];
+    let additionalProperties: JSONSchema | false = false;
+    for (const member of members) {
+      if (ts.isIndexSignatureDeclaration(member)) {
+        additionalProperties = makeSchema(member.type);
+      } else if (ts.isPropertySignature(member) && member.type) {
+        const name = member.name.getText(source);
+        properties[name] = withDescription(makeSchema(member.type), member);
+        // Fields that can be undefined are left out of the JSON
+        const optional =
+          member.questionToken ||
+          (ts.isUnionTypeNode(member.type) &&
+            member.type.types.some(isUndefined));
+        if (!optional) required.push(name);
+      } else {
+        throw new Error(`Unsupported member: ${member.getText(source)}`);
+      }
+    }
+    return {
+      type: "object",
+      ...(Object.keys(properties).length && { properties }),
+      ...(required.length && { required }),
+      additionalProperties,
+    };
+  }
+
+  function makeSchema(node: ts.TypeNode): JSONSchema {
+    const alias = getAlias(node);
+    if (alias) {
+      const name = alias.name.text;
+      if (!(name in defs)) {
+        // Placeholder for recursive types such as Section
+        defs[name] = {};
+        defs[name] = withDescription(makeSchema(alias.type), alias);
+      }
+      return { $ref: `#/$defs/${name}` };
+    }
+    const strings = expandStrings(node);
+    if (strings)
+      return strings.length === 1 ? { const: strings[0] } : { enum: strings };
+    if (ts.isParenthesizedTypeNode(node)) return makeSchema(node.type);
+    if (ts.isArrayTypeNode(node))
+      return { type: "array", items: makeSchema(node.elementType) };
+    if (ts.isLiteralTypeNode(node)) {
+      if (node.literal.kind === ts.SyntaxKind.NullKeyword)
+        return { type: "null" };
+      if (node.literal.kind === ts.SyntaxKind.TrueKeyword)
+        return { const: true };
+      if (node.literal.kind === ts.SyntaxKind.FalseKeyword)
+        return { const: false };
+    }
+    if (node.kind in keywords) return keywords[node.kind]!;
+    if (ts.isUnionTypeNode(node)) {
+      const types = node.types.filter((t) => !isUndefined(t));
+      if (types.length === 1) return makeSchema(types[0]!);
+      // Keep unions of named types, like JSGlobal, readable
+      if (types.every((t) => !ts.isTypeLiteralNode(t)))
+        return { anyOf: types.map(makeSchema) };
+    }
+    const alternatives = getObjectAlternatives(node);
+    if (alternatives) {
+      const objects = alternatives.map(makeObject);
+      return objects.length === 1 ? objects[0]! : { anyOf: objects };
+    }
+    throw new Error(`Unsupported type: ${node.getText(source)}`);
+  }
+
+  return { defs, makeSchema };
+}
+
+// Names in the type are looked up among the aliases in lib/types.ts
+function parseType(text: string): ts.TypeNode {
+  const file = ts.createSourceFile(
+    "root.ts",
+    `type Root = ${text};`,
+    ts.ScriptTarget.Latest,
+    true,
+  );
+  return (file.statements[0] as ts.TypeAliasDeclaration).type;
+}
+
+await fs.mkdir(schemaPath(""), { recursive: true });
+for (const [file, schemaFile] of Object.entries(schemaFiles)) {
+  const { defs, makeSchema } = createGenerator();
+  const data = makeSchema(parseType(roots[file as VersionedFile]));
+  const schema: JSONSchema = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    title: file,
+    type: "object",
+    properties: {
+      $schema: { type: "string" },
+      formatVersion: { const: formatVersion },
+      data,
+    },
+    required: ["formatVersion", "data"],
+    additionalProperties: false,
+    $defs: defs,
+  };
+  const path = schemaPath(schemaFile);
+  const content = await prettier.format(JSON.stringify(schema), {
+    ...(await prettier.resolveConfig(path)),
+    filepath: path,
+  });
+  await fs.writeFile(path, content);
+  console.log(`Wrote ${schemaFile}`);
+}
@@ -1,53 +1,212 @@
 import "../lib/polyfill.js";
 
 import fs from "node:fs/promises";
-import type { Section } from "../lib/types.js";
-import { generatedPath, getSpec } from "../lib/utils.js";
+import Path from "node:path";
+import { parseArgs } from "node:util";
+import type { CheerioAPI } from "cheerio";
+import { generatedPath, getSpec, loadSpec } from "../lib/utils.js";
 import { collectIntrinsics } from "../lib/intrinsics.js";
-import { collectEarlyErrors } from "../lib/early-errors.js";
+import { buildTOC } from "../lib/toc.js";
+import {
+  collectEarlyErrorRules,
+  collectEarlyErrors,
+} from "../lib/early-errors.js";
+import {
+  collectWellKnownIntrinsics,
+  resolveExtends,
+} from "../lib/well-known-intrinsics.js";
+import { collectAbstractOperations } from "../lib/abstract-operations.js";
+import { collectGrammar } from "../lib/grammar.js";
+import { collectAlgorithms, collectOperationSteps } from "../lib/algorithms.js";
+import { buildCallGraph, formatCallGraphDOT } from "../lib/call-graph.js";
+import { buildSpecURLs, defaultSpecURL } from "../lib/spec-urls.js";
+import { getProposalIDPrefix, mergeProposal } from "../lib/proposals.js";
+import { defaultIntlSpecURL, intlIDPrefix, mergeIntl } from "../lib/intl.js";
+import { diffScrapes, formatChangelog, isEmptyChangelog } from "../lib/diff.js";
+import { formatDiagnosticsSummary } from "../lib/diagnostics.js";
+import { serializeVersioned, parseUnversioned } from "../lib/schemas.js";
+import type {
+  Diagnostic,
+  EarlyErrors,
+  JSGlobal,
+  Section,
+} from "../lib/types.js";
+
+const { values: options } = parseArgs({
+  options: {
+    // Where the scraped revision is published, e.g. an edition snapshot
+    "base-url": { type: "string", default: defaultSpecURL },
+    // Proposal specs to merge, as `name=path/to/spec.html` or just the path
+    proposal: { type: "string", multiple: true },
+    // An ECMA-402 spec to merge, e.g. ../ecma402/spec/index.html
+    intl: { type: "string" },
+    "intl-base-url": { type: "string", default: defaultIntlSpecURL },
+    // Record anomalies in diagnostics.json instead of aborting on the first
+    diagnostics: { type: "boolean", default: false },
+    // Like --diagnostics, but exit with an error if any errors were recorded
+    strict: { type: "boolean", default: false },
+  },
+});
+
+const diagnostics: Diagnostic[] | undefined =
+  options.diagnostics || options.strict ? [] : undefined;
 
 const $ = await getSpec();
 
-function buildTOC(root = $(":root > body")) {
-  return root
-    .children("emu-clause, emu-annex")
-    .map((_, el): Section => {
-      const subRoot = $(el);
-      return {
-        title: $(subRoot.children("h1").get()[0]!)
-          .text()
-          .replace(/[\s\n]+/gu, " ")
-          .trim(),
-        id: subRoot.attr("id")!,
-        children: buildTOC(subRoot),
-      };
-    })
-    .get();
+// Source checkouts split the spec into files pulled in by <emu-import>
+async function readDocument(path: string): Promise<string> {
+  const content = await fs.readFile(path, "utf8");
+  const imports = [
+    ...content.matchAll(/<emu-import href="(?<href>[^"]+)"><\/emu-import>/gu),
+  ];
+  const inlined = await Promise.all(
+    imports.map((m) =>
+      readDocument(Path.resolve(Path.dirname(path), m.groups!.href!)),
+    ),
+  );
+  return imports.reduce(
+    (acc, m, i) => acc.replace(m[0], () => inlined[i]!),
+    content,
+  );
 }
 
-const toc = buildTOC();
-const intrinsics = collectIntrinsics(toc);
-const earlyErrors = collectEarlyErrors(toc);
+const toc = buildTOC($);
+const abstractOperations = collectAbstractOperations($);
+const operationSteps = collectOperationSteps(abstractOperations, $);
+const intrinsics = collectIntrinsics(toc, $, diagnostics, operationSteps);
+const wellKnownIntrinsics = collectWellKnownIntrinsics(toc, $, intrinsics);
+resolveExtends(intrinsics, wellKnownIntrinsics);
+// The merged documents, by the prefix of the IDs of their entries
+const documents: { [idPrefix: string]: CheerioAPI } = {};
+for (const proposal of options.proposal ?? []) {
+  const { name, path } = proposal.match(/^(?:(?<name>[^=]+)=)?(?<path>.*)$/u)!
+    .groups!;
+  const proposalName = name ?? Path.basename(path!, ".html");
+  const document = loadSpec(await readDocument(path!));
+  documents[getProposalIDPrefix(proposalName)] = document;
+  mergeProposal(intrinsics, proposalName, document, {
+    operations: operationSteps,
+    diagnostics,
+  });
+}
+let intlTOC: Section[] = [];
+if (options.intl) {
+  const document = loadSpec(await readDocument(options.intl));
+  documents[intlIDPrefix] = document;
+  intlTOC = mergeIntl(intrinsics, document, {
+    operations: operationSteps,
+    diagnostics,
+  });
+}
+const grammar = collectGrammar($, diagnostics);
+const algorithms = collectAlgorithms(intrinsics, $, documents);
+// The built-ins of merged documents call their own operations too, but those
+// of ECMA-262 win over the ones they redefine
+const callGraph = buildCallGraph(
+  intrinsics,
+  algorithms,
+  new Map([
+    ...Object.values(documents).flatMap((document) => [
+      ...collectOperationSteps(collectAbstractOperations(document), document),
+    ]),
+    ...operationSteps,
+  ]),
+);
+const specURLs = {
+  ...buildSpecURLs(toc, options["base-url"]),
+  ...buildSpecURLs(intlTOC, options["intl-base-url"], intlIDPrefix),
+};
+const earlyErrors = collectEarlyErrors(toc, $, diagnostics);
+const earlyErrorRules = collectEarlyErrorRules(
+  toc,
+  $,
+  { abstractOperations, grammar, specURLs },
+  diagnostics,
+);
 
-async function writeWithBackup(path: string, content: string) {
-  const old = await fs.readFile(generatedPath(path), "utf8").catch(() => "");
+// Returns the previous content, which is empty if there was none
+async function writeOutput(path: string, content: string) {
+  let old = "";
+  try {
+    old = await fs.readFile(generatedPath(path), "utf8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== "ENOENT") throw e;
+  }
   if (old === content) {
     console.log(`No change to ${path}`);
-  } else if (old !== "") {
-    await fs.rename(
-      generatedPath(path),
-      generatedPath(path.replace(/\.\w+$/, ".bak$&")),
-    );
-    await fs.writeFile(generatedPath(path), content);
-    console.log(`Updated ${path}. Backup saved; remember to compare the diff.`);
   } else {
     await fs.writeFile(generatedPath(path), content);
-    console.log(`Created ${path}`);
+    console.log(`${old ? "Updated" : "Created"} ${path}`);
   }
+  return old;
+}
+
+function parseOld(old: string): unknown {
+  return old ? parseUnversioned(old) : undefined;
 }
 
-Promise.all([
-  writeWithBackup("toc.json", JSON.stringify(toc, null, 2)),
-  writeWithBackup("intrinsics.json", JSON.stringify(intrinsics, null, 2)),
-  writeWithBackup("early-errors.json", JSON.stringify(earlyErrors, null, 2)),
+const [, oldIntrinsics, oldEarlyErrors] = await Promise.all([
+  writeOutput("toc.json", serializeVersioned("toc.json", toc)),
+  writeOutput(
+    "intrinsics.json",
+    serializeVersioned("intrinsics.json", intrinsics),
+  ),
+  writeOutput(
+    "early-errors.json",
+    serializeVersioned("early-errors.json", earlyErrors),
+  ),
+  writeOutput(
+    "early-error-rules.json",
+    serializeVersioned("early-error-rules.json", earlyErrorRules),
+  ),
+  writeOutput(
+    "algorithms.json",
+    serializeVersioned("algorithms.json", algorithms),
+  ),
+  writeOutput(
+    "call-graph.json",
+    serializeVersioned("call-graph.json", callGraph),
+  ),
+  writeOutput("call-graph.dot", formatCallGraphDOT(callGraph)),
+  writeOutput(
+    "abstract-operations.json",
+    serializeVersioned("abstract-operations.json", abstractOperations),
+  ),
+  writeOutput("grammar.json", JSON.stringify(grammar, null, 2)),
+  writeOutput("spec-urls.json", JSON.stringify(specURLs, null, 2)),
+  writeOutput(
+    "well-known-intrinsics.json",
+    serializeVersioned("well-known-intrinsics.json", wellKnownIntrinsics),
+  ),
 ]);
+
+if (oldIntrinsics || oldEarlyErrors) {
+  const changelog = diffScrapes(
+    {
+      intrinsics: parseOld(oldIntrinsics) as JSGlobal[],
+      earlyErrors: parseOld(oldEarlyErrors) as EarlyErrors,
+    },
+    { intrinsics, earlyErrors },
+  );
+  if (!isEmptyChangelog(changelog)) {
+    await fs.writeFile(
+      generatedPath("changelog.md"),
+      formatChangelog(changelog),
+    );
+    await fs.writeFile(
+      generatedPath("changelog.json"),
+      JSON.stringify(changelog, null, 2),
+    );
+    console.log("Changes summarized in changelog.md and changelog.json");
+  }
+}
+
+if (diagnostics) {
+  await fs.writeFile(
+    generatedPath("diagnostics.json"),
+    JSON.stringify(diagnostics, null, 2),
+  );
+  console.log(formatDiagnosticsSummary(diagnostics));
+  if (options.strict && diagnostics.some((d) => d.severity === "error"))
+    process.exitCode = 1;
+}
@@ -1,8 +1,95 @@
 import FS from "node:fs/promises";
 import Path from "node:path";
-import { generatedPath } from "../lib/utils.js";
+import Crypto from "node:crypto";
+import { execFile } from "node:child_process";
+import { parseArgs, promisify } from "node:util";
+import { assert, generatedPath, normalizeBuiltSpec } from "../lib/utils.js";
+
+const { values: options } = parseArgs({
+  options: {
+    // A local ecma262 git checkout
+    repo: { type: "string" },
+    // A local spec.html, or a built index.html
+    file: { type: "string" },
+    // Any commit-ish: branch, tag, or PR ref (e.g. pull/1234/head)
+    ref: { type: "string" },
+    // An exact commit SHA
+    sha: { type: "string" },
+  },
+});
+
+assert(
+  !(options.repo && options.file),
+  "--repo and --file cannot be used together",
+);
+assert(
+  !(options.ref && options.sha),
+  "--ref and --sha cannot be used together",
+);
 
 const specFilePath = generatedPath("spec.html");
+const revisionPattern = /^<!-- REVISION: (?<sha>.*) -->\n/u;
+
+type SpecSource = {
+  revision: string;
+  getContent: () => Promise<string>;
+};
+
+async function fromFile(path: string): Promise<SpecSource> {
+  const content = await FS.readFile(path, "utf-8");
+  const recorded = content.match(revisionPattern)?.groups!.sha;
+  const hash = Crypto.createHash("sha256").update(content).digest("hex");
+  return {
+    revision: options.sha ?? recorded ?? `sha256:${hash}`,
+    getContent: () =>
+      Promise.resolve(normalizeBuiltSpec(content.replace(revisionPattern, ""))),
+  };
+}
+
+async function fromRepo(repo: string): Promise<SpecSource> {
+  const git = (...args: string[]) =>
+    promisify(execFile)("git", ["-C", repo, ...args], {
+      maxBuffer: 64 * 1024 * 1024,
+    }).then(({ stdout }) => stdout);
+  const revision = (
+    await git(
+      "rev-parse",
+      "--verify",
+      `${options.sha ?? options.ref ?? "HEAD"}^{commit}`,
+    )
+  ).trim();
+  return {
+    revision,
+    getContent: () => git("show", `${revision}:spec.html`),
+  };
+}
+
+async function fetchOK(url: string): Promise<Response> {
+  const res = await fetch(url);
+  assert(res.ok, `Failed to fetch ${url}: ${res.status} ${res.statusText}`);
+  return res;
+}
+
+async function resolveRef(ref: string): Promise<string> {
+  const res = await fetchOK(
+    `https://api.github.com/repos/tc39/ecma262/commits/${ref}`,
+  );
+  const { sha } = (await res.json()) as { sha?: string };
+  assert(sha, `GitHub returned no commit for ${ref}`);
+  return sha;
+}
+
+async function fromGitHub(): Promise<SpecSource> {
+  const revision = options.sha ?? (await resolveRef(options.ref ?? "main"));
+  return {
+    revision,
+    // Cannot use the API endpoint because the file is too big
+    getContent: () =>
+      fetchOK(
+        `https://raw.githubusercontent.com/tc39/ecma262/${revision}/spec.html`,
+      ).then((res) => res.text()),
+  };
+}
 
 // Ensure the generated directory exists
 try {
@@ -11,29 +98,31 @@ try {
   await FS.mkdir(Path.dirname(specFilePath));
 }
 
-const { sha: newSHA } = await fetch(
-  "https://api.github.com/repos/tc39/ecma262/commits/main",
-).then((res) => res.json());
+const source = options.file
+  ? await fromFile(options.file)
+  : options.repo
+  ? await fromRepo(options.repo)
+  : await fromGitHub();
 
 try {
   const revision = await FS.readFile(specFilePath, "utf-8");
-  const oldSHA = revision.match(/<!-- REVISION: (?<sha>.*) -->/)!.groups!.sha!;
-  if (oldSHA === newSHA) {
+  const oldSHA = revision.match(revisionPattern)!.groups!.sha!;
+  if (oldSHA === source.revision) {
     console.log("No new changes found. Exiting.");
     process.exit(0);
   } else {
-    console.log("New version detected. Downloading...");
+    console.log(`New version detected (${source.revision}). Syncing...`);
   }
 } catch {
   // If we couldn't read the old file, continue
-  console.log("No existing spec.html detected. Downloading...");
+  console.log("No existing spec.html detected. Syncing...");
 }
 
-// Cannot use the API endpoint because the file is too big
-const data = await fetch(
-  "https://raw.githubusercontent.com/tc39/ecma262/main/spec.html",
-).then((res) => res.text());
+const data = await source.getContent();
 
-await FS.writeFile(specFilePath, `<!-- REVISION: ${newSHA} -->\n${data}`);
+await FS.writeFile(
+  specFilePath,
+  `<!-- REVISION: ${source.revision} -->\n${data}`,
+);
 
-console.log(`Download completed! Saved to ${specFilePath}.`);
+console.log(`Sync completed! Saved to ${specFilePath}.`);
@@ -0,0 +1,83 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as Cheerio from "cheerio";
+import { createThrowsCollector, parseAlgorithm } from "../lib/algorithms.js";
+
+function parse(source: string) {
+  const $ = Cheerio.load(`<emu-alg>${source}</emu-alg>`);
+  return parseAlgorithm($, $("emu-alg"));
+}
+
+// A and B call each other
+const operations = new Map([
+  [
+    "A",
+    parse(`
+      1. Let _y_ be ? B(_x_).
+      1. Throw a *RangeError* exception.`),
+  ],
+  [
+    "B",
+    parse(`
+      1. Let _y_ be ? A(_x_).
+      1. Throw a *SyntaxError* exception.`),
+  ],
+]);
+
+function getTypes(
+  collect: ReturnType<typeof createThrowsCollector>,
+  name: string,
+) {
+  return collect(parse(`1. Return ? ${name}(_x_).`))
+    .map((error) => error.type)
+    .sort();
+}
+
+test("steps are numbered like ecmarkup does", () => {
+  const steps = parse(`
+    1. If _x_ is *undefined*, then
+      1. Throw a *TypeError* exception.
+    1. Else,
+      1. Let _n_ be ? ToNumber(_x_).
+      1. If _n_ is *NaN*, then
+        1. Return *false*.`);
+  assert.deepEqual(
+    steps.map((step) => [step.number, step.steps.map((s) => s.number)]),
+    [
+      ["1", ["1.a"]],
+      ["2", ["2.a", "2.b"]],
+    ],
+  );
+  assert.equal(steps[1]!.steps[1]!.steps[0]!.number, "2.b.i");
+  assert.deepEqual(steps[1]!.steps[0]!.operations, ["ToNumber"]);
+});
+
+test("thrown errors have the step and condition they're under", () => {
+  const collect = createThrowsCollector(operations);
+  assert.deepEqual(
+    collect(
+      parse(`
+        1. If _x_ is *undefined*, then
+          1. Throw a *TypeError* exception.
+        1. Let _y_ be ? B(_x_).`),
+    ),
+    [
+      {
+        type: "TypeError",
+        step: "1.a",
+        condition: "If _x_ is *undefined*",
+        via: undefined,
+      },
+      { type: "RangeError", step: "2", condition: undefined, via: "B" },
+      { type: "SyntaxError", step: "2", condition: undefined, via: "B" },
+    ],
+  );
+});
+
+test("mutually recursive operations don't depend on the lookup order", () => {
+  const expected = ["RangeError", "SyntaxError"];
+  const collect = createThrowsCollector(operations);
+  assert.deepEqual(getTypes(collect, "B"), expected);
+  assert.deepEqual(getTypes(collect, "A"), expected);
+  assert.deepEqual(getTypes(createThrowsCollector(operations), "A"), expected);
+});
@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildTOC, collectIntrinsics, type Section } from "../lib/index.js";
+import { runCLI, type CLIData } from "../lib/commands.js";
+import { createIntrinsicsIndex } from "../lib/query.js";
+import { readFixture } from "./fixtures.js";
+
+const html = readFixture("builtins.html");
+const toc = buildTOC(html);
+const index = createIntrinsicsIndex(collectIntrinsics(toc, html));
+
+const data: CLIData = {
+  getIntrinsicsIndex: () => Promise.resolve(index),
+  getTOC: () => Promise.resolve<Section[]>(toc),
+  getSpecURL: (id) => Promise.resolve(`https://tc39.es/ecma262/#${id}`),
+  getEarlyErrors: () => Promise.resolve({}),
+  getCallGraph: () =>
+    Promise.resolve({ builtIns: [], operations: {}, usedBy: {} }),
+};
+
+test("show describes a member", async () => {
+  const { stdout, stderr, exitCode } = await runCLI(
+    ["show", "Map.prototype.get"],
+    data,
+  );
+  assert.equal(exitCode, 0);
+  assert.equal(stderr, "");
+  const lines = stdout.split("\n");
+  assert.equal(lines[0], "Map.prototype.get");
+  assert.ok(lines.includes("  Kind: prototype method"), stdout);
+  assert.ok(lines.includes("  Parameters: key"), stdout);
+  // Methods without an attributes paragraph
+  assert.ok(lines.includes("  Attributes: wc"), stdout);
+  assert.ok(
+    lines.includes("  Spec: https://tc39.es/ecma262/#sec-map.prototype.get"),
+    stdout,
+  );
+});
+
+test("show fails for unknown paths", async () => {
+  const { stdout, stderr, exitCode } = await runCLI(["show", "Nope"], data);
+  assert.equal(exitCode, 1);
+  assert.equal(stdout, "");
+  assert.equal(stderr, "No global or member found for Nope");
+});
+
+test("list filters globals and members by status", async () => {
+  const globals = await runCLI(["list", "--annex-b"], data);
+  assert.equal(globals.exitCode, 0);
+  assert.equal(globals.stdout, "escape() (function)");
+  // Annex B's String.prototype.substr isn't a global
+  assert.match(globals.stderr, /--members/u);
+  const members = await runCLI(["list", "--annex-b", "--members"], data);
+  assert.equal(members.exitCode, 0);
+  assert.equal(members.stderr, "");
+  assert.deepEqual(members.stdout.split("\n"), [
+    "String.prototype.substr (prototype method)",
+    "String.prototype.trimLeft (prototype method)",
+  ]);
+});
+
+test("list rejects unknown kinds and other commands print the usage", async () => {
+  const kind = await runCLI(["list", "--kind", "nope"], data);
+  assert.equal(kind.exitCode, 1);
+  assert.match(kind.stderr, /^--kind must be one of/u);
+  const other = await runCLI(["nope", "Map"], data);
+  assert.equal(other.exitCode, 1);
+  assert.match(other.stderr, /^Usage: es-scraper/u);
+});
@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildTOC, collectIntrinsics, type JSClass } from "../lib/index.js";
+import { checkConformance } from "../lib/conformance.js";
+import { readFixture } from "./fixtures.js";
+
+const html = readFixture("builtins.html");
+
+function getMap() {
+  const intrinsics = collectIntrinsics(buildTOC(html), html);
+  const map = intrinsics.find((g) => g.name === "Map") as JSClass;
+  return { intrinsics, map };
+}
+
+function getFailures(intrinsics: ReturnType<typeof collectIntrinsics>) {
+  return checkConformance(intrinsics)
+    .filter((r) => r.status !== "pass")
+    .map(({ path, check, status }) => ({ path, check, status }));
+}
+
+test("the fixture conforms to this engine", () => {
+  assert.deepEqual(getFailures(getMap().intrinsics), []);
+});
+
+test("missing properties and differences from the spec are engine gaps", () => {
+  const { intrinsics, map } = getMap();
+  const get = map.instanceMethods.find((m) => m.name === "Map.prototype.get()");
+  assert.ok(get);
+  map.instanceMethods.push({
+    ...get,
+    name: "Map.prototype.upsert()",
+    key: { kind: "string", value: "upsert" },
+  });
+  // As if the spec had a "length" paragraph or gave the attributes
+  get.length = 2;
+  const entries = map.instanceMethods.find(
+    (m) => m.name === "Map.prototype.entries()",
+  );
+  assert.ok(entries);
+  entries.attributes = "w";
+  assert.deepEqual(getFailures(intrinsics), [
+    {
+      path: "Map.prototype.entries",
+      check: "attributes",
+      status: "engine-gap",
+    },
+    { path: "Map.prototype.get", check: "length", status: "engine-gap" },
+    { path: "Map.prototype.upsert", check: "presence", status: "engine-gap" },
+  ]);
+});
+
+test("differences from the scraper's defaults are scraper bugs", () => {
+  const { intrinsics, map } = getMap();
+  const get = map.instanceMethods.find((m) => m.name === "Map.prototype.get()");
+  assert.ok(get);
+  // As if a parameter had been taken for a required one
+  get.parameters = { ...get.parameters, required: 2 };
+  const species = map.staticProperties[0];
+  assert.equal(species?.type, "accessor-property");
+  // As if the getter had been taken for a data property
+  species.attributes = "";
+  assert.deepEqual(getFailures(intrinsics), [
+    { path: "Map[Symbol.species]", check: "attributes", status: "scraper-bug" },
+    { path: "Map.prototype.get", check: "length", status: "scraper-bug" },
+  ]);
+});
@@ -0,0 +1,119 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildTOC,
+  collectAbstractOperations,
+  collectEarlyErrorRules,
+  collectEarlyErrors,
+  collectGrammar,
+  type Diagnostic,
+} from "../lib/index.js";
+import { buildSpecURLs } from "../lib/spec-urls.js";
+import { readFixture } from "./fixtures.js";
+
+const html = readFixture("early-errors.html");
+const toc = buildTOC(html);
+const links = {
+  abstractOperations: collectAbstractOperations(html),
+  grammar: collectGrammar(html),
+  specURLs: buildSpecURLs(toc),
+};
+const rules = collectEarlyErrorRules(toc, html, links);
+
+test("early errors are keyed by production", () => {
+  const earlyErrors = collectEarlyErrors(toc, html);
+  assert.equal(earlyErrors.Block?.["`{` StatementList `}`"]?.length, 2);
+  assert.deepEqual(
+    earlyErrors["ArrowFunction[In, Yield, Await]"]?.[
+      "ArrowParameters[?Yield, ?Await] `=>` ConciseBody[?In]"
+    ],
+    [
+      "It is a Syntax Error if |ArrowParameters| Contains |YieldExpression| is *true*.",
+      "Note: Normally, Contains does not look inside most function forms.",
+    ],
+  );
+  // Each production of a block gets its rules
+  assert.deepEqual(
+    Object.values(earlyErrors.AsyncArrowHead ?? {}),
+    Object.values(earlyErrors.ArrowParameters ?? {}),
+  );
+});
+
+test("rules have their production, parameters and kind", () => {
+  const arrowRules = rules.filter((r) => r.lhs === "ArrowFunction");
+  assert.deepEqual(
+    arrowRules.map(({ production, parameters, kind }) => ({
+      production,
+      parameters,
+      kind,
+    })),
+    [
+      {
+        production: "ArrowFunction : ArrowParameters `=>` ConciseBody",
+        parameters: ["In", "Yield", "Await"],
+        kind: "rule",
+      },
+      {
+        production: "ArrowFunction : ArrowParameters `=>` ConciseBody",
+        parameters: ["In", "Yield", "Await"],
+        kind: "note",
+      },
+    ],
+  );
+  assert.equal(
+    arrowRules[0]!.id,
+    "sec-arrow-function-definitions-static-semantics-early-errors",
+  );
+  assert.equal(
+    arrowRules[0]!.url,
+    "https://tc39.es/ecma262/#sec-arrow-function-definitions-static-semantics-early-errors",
+  );
+});
+
+test("rules link to the nonterminals, operations and sections they mention", () => {
+  const [rule] = rules.filter((r) => r.lhs === "Block");
+  assert.deepEqual(rule?.references, [
+    {
+      type: "nonterminal",
+      name: "StatementList",
+      id: "sec-block",
+      url: "https://tc39.es/ecma262/#sec-block",
+    },
+    {
+      type: "operation",
+      name: "LexicallyDeclaredNames",
+      id: "sec-static-semantics-lexicallydeclarednames",
+      url: "https://tc39.es/ecma262/#sec-static-semantics-lexicallydeclarednames",
+    },
+  ]);
+  const seeAlso = rules.find((r) => r.lhs === "AsyncArrowHead");
+  assert.deepEqual(seeAlso?.references, [
+    {
+      type: "section",
+      name: "sec-block-static-semantics-early-errors",
+      id: "sec-block-static-semantics-early-errors",
+      url: "https://tc39.es/ecma262/#sec-block-static-semantics-early-errors",
+    },
+  ]);
+});
+
+test("malformed productions are reported once", () => {
+  const spec = `<emu-clause id="sec-test">
+    <h1>Static Semantics: Early Errors</h1>
+    <emu-grammar>Weird</emu-grammar>
+    <ul><li>It is a Syntax Error if this matches.</li></ul>
+  </emu-clause>`;
+  const testTOC = buildTOC(spec);
+  assert.throws(
+    () => collectEarlyErrorRules(testTOC, spec, links),
+    /Unexpected production: Weird/u,
+  );
+  const diagnostics: Diagnostic[] = [];
+  collectEarlyErrors(testTOC, spec, diagnostics);
+  assert.deepEqual(
+    collectEarlyErrorRules(testTOC, spec, links, diagnostics),
+    [],
+  );
+  assert.equal(diagnostics.length, 1);
+  assert.equal(diagnostics[0]!.id, "sec-test");
+});
@@ -0,0 +1,93 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as Cheerio from "cheerio";
+import {
+  buildTOC,
+  collectIntrinsics,
+  getMembers,
+  type JSClass,
+  type JSGlobal,
+  type JSNamespace,
+} from "../lib/index.js";
+import { mergeEditions } from "../lib/editions.js";
+import { readFixture } from "./fixtures.js";
+
+const html = readFixture("builtins.html");
+
+// The fixture as an edition that lacks some sections
+function scrapeEdition(spec: string, ...removedIDs: string[]): JSGlobal[] {
+  const $ = Cheerio.load(spec);
+  for (const id of removedIDs) $(`[id="${id}"]`).remove();
+  return collectIntrinsics(buildTOC($), $);
+}
+
+const history = mergeEditions([
+  {
+    name: "ES2015",
+    intrinsics: scrapeEdition(
+      html.replace(
+        "Map.prototype.entries ( )",
+        "Map.prototype.entries ( _kind_ )",
+      ),
+      "sec-promise-objects",
+      "sec-map.prototype.get",
+    ),
+  },
+  { name: "ES2016", intrinsics: scrapeEdition(html) },
+  {
+    name: "ES2017",
+    intrinsics: scrapeEdition(html, "sec-math.max", "sec-escape-string"),
+  },
+]);
+
+function getGlobal<T extends JSGlobal>(name: string): T {
+  const g = history.find((i) => i.name === name);
+  assert.ok(g, `${name} is missing`);
+  return g as T;
+}
+
+function getMember(g: JSClass | JSNamespace, name: string) {
+  const entry = getMembers(g).find(({ member }) => member.name === name);
+  assert.ok(entry, `${name} is missing`);
+  return entry.member;
+}
+
+test("entries have the edition that introduced them", () => {
+  const map = getGlobal<JSClass>("Map");
+  assert.equal(map.since, "ES2015");
+  assert.equal(map.removedIn, undefined);
+  assert.equal(getMember(map, "Map.prototype.entries()").since, "ES2015");
+  assert.equal(getMember(map, "Map.prototype.get()").since, "ES2016");
+  // Members of new globals are as new as the global
+  const promise = getGlobal<JSClass>("Promise");
+  assert.equal(promise.since, "ES2016");
+  assert.ok(
+    getMembers(promise).every(({ member }) => member.since === "ES2016"),
+  );
+});
+
+test("removed entries are kept as last seen", () => {
+  const max = getMember(getGlobal<JSNamespace>("Math"), "Math.max()");
+  assert.equal(max.since, "ES2015");
+  assert.equal(max.removedIn, "ES2017");
+  assert.equal(max.type === "method" && max.length, 2);
+  const escape = getGlobal("escape()");
+  assert.equal(escape.since, "ES2015");
+  assert.equal(escape.removedIn, "ES2017");
+  assert.equal(getGlobal("Math").removedIn, undefined);
+});
+
+test("the latest definition of each entry wins", () => {
+  const entries = getMember(
+    getGlobal<JSClass>("Map"),
+    "Map.prototype.entries()",
+  );
+  assert.equal(entries.type, "method");
+  assert.deepEqual(entries.type === "method" && entries.parameters.list, []);
+  // Each member is merged once
+  assert.equal(
+    getMembers(getGlobal<JSClass>("Map")).length,
+    getMembers(scrapeEdition(html).find((g) => g.name === "Map") as JSClass)
+      .length,
+  );
+});
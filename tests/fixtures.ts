@@ -0,0 +1,6 @@
+import fs from "node:fs";
+
+/** Reads a trimmed spec snippet from `tests/fixtures/` */
+export function readFixture(name: string): string {
+  return fs.readFileSync(new URL(`fixtures/${name}`, import.meta.url), "utf8");
+}
@@ -0,0 +1,133 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { collectGrammar, type Diagnostic } from "../lib/index.js";
+
+function collect(grammar: string, diagnostics?: Diagnostic[]) {
+  return collectGrammar(
+    `<emu-clause id="sec-test"><h1>Test</h1>
+      <emu-grammar type="definition">${grammar}</emu-grammar>
+    </emu-clause>`,
+    diagnostics,
+  );
+}
+
+function getSymbols(grammar: string) {
+  const [production] = collect(grammar);
+  assert.ok(production);
+  return production.alternatives.map((a) => a.symbols);
+}
+
+test("productions have their parameters, guards and grammar", () => {
+  const [production] = collect(`
+    ReturnStatement[Yield, Await] :
+      \`return\` \`;\`
+      [+Yield] \`return\` Expression[+In, ?Yield, ?Await] \`;\`
+  `);
+  assert.ok(production);
+  assert.equal(production.name, "ReturnStatement");
+  assert.equal(production.id, "sec-test");
+  assert.equal(production.grammar, "syntactic");
+  assert.deepEqual(production.parameters, ["Yield", "Await"]);
+  assert.deepEqual(production.alternatives[1]!.guards, [
+    { name: "Yield", present: true },
+  ]);
+  assert.deepEqual(production.alternatives[1]!.symbols[1], {
+    type: "nonterminal",
+    name: "Expression",
+    arguments: [
+      { name: "In", modifier: "+" },
+      { name: "Yield", modifier: "?" },
+      { name: "Await", modifier: "?" },
+    ],
+    optional: false,
+  });
+});
+
+test("lookahead sets", () => {
+  const [symbols] = getSymbols(`
+    ExpressionStatement :
+      [lookahead ∉ { \`{\`, \`async\` [no LineTerminator here] \`function\`, \`let [\` }] Expression \`;\`
+  `);
+  assert.deepEqual(symbols![0], {
+    type: "lookahead",
+    operator: "∉",
+    values: [
+      [{ type: "terminal", value: "{", optional: false }],
+      [
+        { type: "terminal", value: "async", optional: false },
+        { type: "no-symbol-here", symbol: "LineTerminator" },
+        { type: "terminal", value: "function", optional: false },
+      ],
+      [{ type: "terminal", value: "let [", optional: false }],
+    ],
+  });
+});
+
+test("one of and but not one of", () => {
+  const [production] = collect(`
+    ReservedWord :: one of
+      \`await\` \`break\`
+  `);
+  assert.ok(production);
+  assert.equal(production.grammar, "lexical");
+  assert.equal(production.oneOf, true);
+  assert.deepEqual(
+    production.alternatives.map((a) => a.symbols),
+    [
+      [{ type: "terminal", value: "await", optional: false }],
+      [{ type: "terminal", value: "break", optional: false }],
+    ],
+  );
+  const [symbols] = getSymbols(`
+    DoubleStringCharacter ::
+      SourceCharacter but not one of \`"\` or \`\\\` or LineTerminator
+  `);
+  assert.deepEqual(symbols![1], {
+    type: "but-not",
+    exclusions: [
+      { type: "terminal", value: '"', optional: false },
+      { type: "terminal", value: "\\", optional: false },
+      {
+        type: "nonterminal",
+        name: "LineTerminator",
+        arguments: [],
+        optional: false,
+      },
+    ],
+  });
+});
+
+test("constraints", () => {
+  const [symbols] = getSymbols(`
+    CodePoint ::
+      HexDigits[~Sep] [> but only if the MV of |HexDigits| ≤ 0x10FFFF]
+  `);
+  assert.deepEqual(symbols, [
+    {
+      type: "nonterminal",
+      name: "HexDigits",
+      arguments: [{ name: "Sep", modifier: "~" }],
+      optional: false,
+    },
+    {
+      type: "constraint",
+      text: "but only if the MV of |HexDigits| ≤ 0x10FFFF",
+    },
+  ]);
+});
+
+test("unknown symbols are reported", () => {
+  const grammar = `
+    Weird ::
+      Digit @ Digit
+  `;
+  assert.throws(() => collect(grammar), /Unexpected grammar symbol at "@/u);
+  const diagnostics: Diagnostic[] = [];
+  const [production] = collect(grammar, diagnostics);
+  assert.deepEqual(production?.alternatives[0]!.symbols, [
+    { type: "nonterminal", name: "Digit", arguments: [], optional: false },
+  ]);
+  assert.equal(diagnostics.length, 1);
+  assert.equal(diagnostics[0]!.id, "sec-test");
+  assert.equal(diagnostics[0]!.title, "Test");
+});
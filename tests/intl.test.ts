@@ -0,0 +1,114 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildTOC,
+  collectIntrinsics,
+  getMembers,
+  type Diagnostic,
+  type JSClass,
+  type JSNamespace,
+} from "../lib/index.js";
+import { collectAbstractOperations } from "../lib/abstract-operations.js";
+import { collectAlgorithms, collectOperationSteps } from "../lib/algorithms.js";
+import { buildCallGraph } from "../lib/call-graph.js";
+import { intlIDPrefix, mergeIntl } from "../lib/intl.js";
+import { readFixture } from "./fixtures.js";
+
+const html = readFixture("builtins.html");
+const intrinsics = collectIntrinsics(buildTOC(html), html);
+const intlHTML = readFixture("intl.html");
+const sections = mergeIntl(intrinsics, intlHTML);
+
+function getClass(name: string): JSClass {
+  const g = intrinsics.find((i) => i.name === name);
+  assert.equal(g?.type, "class", name);
+  return g as JSClass;
+}
+
+test("Intl constructors have the usage their steps give", () => {
+  assert.equal(getClass("Intl.Collator").ctor?.usage, "equivalent");
+  assert.equal(getClass("Intl.Locale").ctor?.usage, "construct");
+  assert.deepEqual(getClass("Intl.Locale").ctor?.parameters.list, [
+    { name: "tag", optional: false, rest: false, depth: 0 },
+    { name: "options", optional: true, rest: false, depth: 1 },
+  ]);
+});
+
+test("Intl entries have prefixed IDs", () => {
+  const intl = intrinsics.find((g) => g.name === "Intl") as JSNamespace;
+  assert.equal(intl.type, "namespace");
+  assert.equal(intl.global, true);
+  assert.deepEqual(
+    getMembers(intl).map(({ member }) => [member.name, member.id]),
+    [["Intl.getCanonicalLocales()", "ecma402:sec-intl.getcanonicallocales"]],
+  );
+  const locale = getClass("Intl.Locale");
+  assert.equal(locale.global, false);
+  assert.deepEqual(
+    getMembers(locale).map(({ member }) => member.id),
+    [
+      "ecma402:sec-intl-locale-constructor",
+      "ecma402:sec-Intl.Locale.prototype.baseName",
+      "ecma402:sec-Intl.Locale.prototype.maximize",
+    ],
+  );
+  assert.ok(sections.every((s) => s.id.startsWith(intlIDPrefix)));
+});
+
+test("locale-sensitive methods replace those of ECMA-262", () => {
+  const localeCompare = getClass("String").instanceMethods.find(
+    (m) => m.name === "String.prototype.localeCompare()",
+  );
+  assert.ok(localeCompare);
+  assert.equal(localeCompare.id, "ecma402:sup-String.prototype.localeCompare");
+  assert.deepEqual(
+    localeCompare.parameters.list.map((p) => p.name),
+    ["that", "locales", "options"],
+  );
+});
+
+test("Intl entries have the steps of ECMA-402", () => {
+  const algorithms = collectAlgorithms(intrinsics, html, {
+    [intlIDPrefix]: intlHTML,
+  });
+  assert.equal(
+    algorithms["ecma402:sec-intl-locale-constructor"]?.[0]?.text,
+    "If NewTarget is *undefined*, throw a *TypeError* exception.",
+  );
+  assert.deepEqual(
+    algorithms["ecma402:sup-String.prototype.localeCompare"]?.[0]?.operations,
+    ["RequireObjectCoercible"],
+  );
+});
+
+test("Intl entries are in the call graph", () => {
+  const graph = buildCallGraph(
+    intrinsics,
+    collectAlgorithms(intrinsics, html, { [intlIDPrefix]: intlHTML }),
+    collectOperationSteps(collectAbstractOperations(intlHTML), intlHTML),
+  );
+  assert.deepEqual(
+    graph.builtIns.find((b) => b.path === "Intl.getCanonicalLocales")?.calls,
+    ["CanonicalizeLocaleList"],
+  );
+  assert.deepEqual(graph.usedBy.CanonicalizeLocaleList, {
+    direct: ["Intl.getCanonicalLocales"],
+    indirect: [],
+  });
+});
+
+test("anomalies in ECMA-402 have excerpts", () => {
+  const diagnostics: Diagnostic[] = [];
+  mergeIntl(
+    structuredClone(intrinsics),
+    `<emu-clause id="sec-intl.supportedvaluesof">
+      <h1>Intl.supportedValuesOf ( _key_ )</h1>
+      <p>The *"length"* property of this method is *1*.</p>
+      <p>The *"length"* property of this method is *2*.</p>
+    </emu-clause>`,
+    { diagnostics },
+  );
+  assert.equal(diagnostics.length, 1);
+  assert.equal(diagnostics[0]!.id, "ecma402:sec-intl.supportedvaluesof");
+  assert.match(diagnostics[0]!.excerpt ?? "", /^Intl\.supportedValuesOf/u);
+});
@@ -0,0 +1,256 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildTOC,
+  collectAbstractOperations,
+  collectIntrinsics,
+  collectOperationSteps,
+  collectWellKnownIntrinsics,
+  getMembers,
+  resolveExtends,
+  type Diagnostic,
+  type JSClass,
+  type JSGlobal,
+  type JSNamespace,
+} from "../lib/index.js";
+import { readFixture } from "./fixtures.js";
+
+const html = readFixture("builtins.html");
+const toc = buildTOC(html);
+const diagnostics: Diagnostic[] = [];
+const intrinsics = collectIntrinsics(toc, html, diagnostics);
+
+function getGlobal(name: string): JSGlobal {
+  const g = intrinsics.find((i) => i.name === name);
+  assert.ok(g, `${name} is missing`);
+  return g;
+}
+
+function getClass(name: string): JSClass {
+  const g = getGlobal(name);
+  assert.equal(g.type, "class");
+  return g as JSClass;
+}
+
+test("the fixture scrapes without anomalies", () => {
+  assert.deepEqual(diagnostics, []);
+  assert.deepEqual(
+    intrinsics.map((g) => g.name),
+    [
+      "Error",
+      "RangeError",
+      "TypeError",
+      "Math",
+      "String",
+      "TypedArray",
+      "Int8Array",
+      "Uint8Array",
+      "Map",
+      "Promise",
+      "Infinity",
+      "parseInt()",
+      "escape()",
+    ],
+  );
+});
+
+test("namespaces have static properties and methods", () => {
+  const math = getGlobal("Math") as JSNamespace;
+  assert.equal(math.type, "namespace");
+  assert.equal(math.global, true);
+  assert.deepEqual(
+    math.staticProperties.map((p) => [p.name, p.attributes]),
+    [["Math.PI", ""]],
+  );
+  const [max] = math.staticMethods;
+  assert.ok(max);
+  assert.equal(max.name, "Math.max()");
+  assert.equal(max.length, 2);
+  assert.deepEqual(max.parameters, {
+    required: 0,
+    optional: 0,
+    rest: true,
+    list: [{ name: "args", optional: false, rest: true, depth: 0 }],
+  });
+});
+
+test("classes have a constructor, members and internal slots", () => {
+  const map = getClass("Map");
+  assert.equal(map.global, true);
+  assert.equal(map.extends, undefined);
+  assert.ok(map.ctor);
+  assert.equal(map.ctor.usage, "construct");
+  assert.deepEqual(map.ctor.parameters.list, [
+    { name: "iterable", optional: true, rest: false, depth: 1 },
+  ]);
+  assert.deepEqual(
+    map.staticProperties.map((p) => [p.type, p.name]),
+    [["accessor-property", "Map[%Symbol.species%]"]],
+  );
+  assert.deepEqual(
+    map.instanceMethods.map((m) => m.name),
+    [
+      "Map.prototype.entries()",
+      "Map.prototype.get()",
+      "Map.prototype[%Symbol.iterator%]()",
+    ],
+  );
+  assert.deepEqual(map.internalSlots, [
+    { name: "[[MapData]]", id: "sec-properties-of-map-instances" },
+  ]);
+  const string = getClass("String");
+  assert.ok(string.ctor);
+  assert.equal(string.ctor.usage, "different");
+  assert.equal(string.ctor.length, 1);
+  assert.deepEqual(
+    string.instanceProperties.map((p) => [p.name, p.attributes]),
+    [["length", ""]],
+  );
+});
+
+test("prototype methods have the brand check of their this value", () => {
+  const brandChecks = Object.fromEntries(
+    intrinsics.flatMap((g) =>
+      g.type === "class"
+        ? g.instanceMethods.map((m) => [m.name, m.brandCheck])
+        : [],
+    ),
+  );
+  assert.equal(brandChecks["Map.prototype.get()"], "[[MapData]]");
+  assert.equal(brandChecks["Promise.prototype.then()"], "[[PromiseState]]");
+  assert.equal(
+    brandChecks["%TypedArray%.prototype.at()"],
+    "[[TypedArrayName]]",
+  );
+  assert.equal(brandChecks["String.prototype.trimStart()"], null);
+  assert.equal(brandChecks["Error.prototype.toString()"], undefined);
+  assert.deepEqual(
+    getClass("Promise").internalSlots.map((slot) => slot.name),
+    ["[[PromiseState]]", "[[PromiseResult]]"],
+  );
+});
+
+test("aliases have the name of the function they refer to", () => {
+  const names = Object.fromEntries(
+    intrinsics.flatMap((g) =>
+      g.type === "class"
+        ? g.instanceMethods.map((m) => [m.name, m.functionName])
+        : [],
+    ),
+  );
+  assert.equal(names["Map.prototype.entries()"], "entries");
+  assert.equal(names["Map.prototype[%Symbol.iterator%]()"], "entries");
+  assert.equal(names["String.prototype.trimLeft()"], "trimStart");
+  assert.equal(names["String.prototype.substr()"], "substr");
+});
+
+test("%TypedArray% is expanded into each TypedArray constructor", () => {
+  assert.equal(getClass("TypedArray").global, false);
+  for (const name of ["Int8Array", "Uint8Array"]) {
+    const ta = getClass(name);
+    assert.equal(ta.global, true);
+    assert.equal(ta.extends, "TypedArray");
+    assert.ok(ta.ctor);
+    assert.equal(ta.ctor.name, `${name}()`);
+    assert.equal(ta.ctor.usage, "construct");
+    assert.equal(ta.ctor.length, 3);
+    assert.deepEqual(
+      getMembers(ta).map(({ member }) => member.name),
+      [
+        `${name}()`,
+        `${name}.BYTES_PER_ELEMENT`,
+        `${name}.prototype.BYTES_PER_ELEMENT`,
+      ],
+    );
+  }
+});
+
+test("NativeError is expanded into each native error type", () => {
+  assert.equal(getClass("Error").ctor?.usage, "equivalent");
+  for (const name of ["RangeError", "TypeError"]) {
+    const error = getClass(name);
+    assert.equal(error.extends, "Error");
+    assert.ok(error.ctor);
+    assert.equal(error.ctor.name, `${name}()`);
+    assert.equal(error.ctor.length, 1);
+    assert.deepEqual(
+      error.prototypeProperties.map((p) => [p.name, p.owner]),
+      [[`${name}.prototype.message`, `${name}.prototype`]],
+    );
+  }
+});
+
+test("global properties and functions", () => {
+  assert.deepEqual(getGlobal("Infinity"), {
+    type: "global-property",
+    name: "Infinity",
+    id: "sec-value-properties-of-the-global-object-infinity",
+    attributes: "",
+  });
+  const parseInt = getGlobal("parseInt()");
+  assert.equal(parseInt.type, "function");
+  assert.equal(parseInt.global, true);
+  assert.equal(parseInt.annexB, undefined);
+});
+
+test("Annex B additions are merged and flagged", () => {
+  const escape = getGlobal("escape()");
+  assert.equal(escape.type, "function");
+  assert.equal(escape.annexB, true);
+  const string = getClass("String");
+  const substr = string.instanceMethods.find(
+    (m) => m.name === "String.prototype.substr()",
+  );
+  assert.ok(substr);
+  assert.equal(substr.annexB, true);
+  assert.equal(substr.parameters.required, 2);
+  assert.equal(
+    string.instanceMethods.find(
+      (m) => m.name === "String.prototype.trimStart()",
+    )?.annexB,
+    undefined,
+  );
+});
+
+test("extends is resolved through the well-known intrinsics", () => {
+  const resolved = structuredClone(intrinsics);
+  const wellKnown = collectWellKnownIntrinsics(toc, html, resolved);
+  assert.equal(
+    wellKnown.find((i) => i.name === "%Map.prototype%")?.global,
+    "Map",
+  );
+  resolveExtends(resolved, wellKnown);
+  for (const g of resolved)
+    if (g.type === "class") assert.ok(!g.extends?.startsWith("%"), g.name);
+});
+
+test("missing sections are reported instead of thrown", () => {
+  const spec = `
+    <emu-clause id="sec-fundamental-objects">
+      <h1>Fundamental Objects</h1>
+      <emu-clause id="sec-object-objects">
+        <h1>Object Objects</h1>
+        <emu-clause id="sec-object-constructor">
+          <h1>The Object Constructor</h1>
+        </emu-clause>
+      </emu-clause>
+    </emu-clause>
+    <emu-clause id="sec-reflection"><h1>Reflection</h1></emu-clause>`;
+  const recorded: Diagnostic[] = [];
+  collectIntrinsics(buildTOC(spec), spec, recorded);
+  const missing = recorded.find(
+    (d) => d.message === "Missing Properties of the Object Prototype Object",
+  );
+  assert.equal(missing?.id, "sec-object-objects");
+  assert.match(missing.excerpt ?? "", /^Object Objects/u);
+});
+
+test("errors are followed through the operation steps passed in", () => {
+  const steps = collectOperationSteps(collectAbstractOperations(html), html);
+  assert.deepEqual(collectIntrinsics(toc, html, undefined, steps), intrinsics);
+  const withoutSteps = collectIntrinsics(toc, html, undefined, new Map());
+  const localeCompare = (
+    withoutSteps.find((g) => g.name === "String") as JSClass
+  ).instanceMethods.find((m) => m.name === "String.prototype.localeCompare()");
+  assert.deepEqual(localeCompare?.throws, []);
+});
@@ -0,0 +1,96 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import OS from "node:os";
+import Path from "node:path";
+import { buildTOC, collectIntrinsics } from "../lib/index.js";
+import { checkMDN } from "../lib/mdn.js";
+import { createIntrinsicsIndex } from "../lib/query.js";
+import { readFixture } from "./fixtures.js";
+
+const html = readFixture("builtins.html");
+const index = createIntrinsicsIndex(collectIntrinsics(buildTOC(html), html));
+
+// Writes a reference page to a fake mdn/content checkout
+async function writePage(
+  root: string,
+  slug: string,
+  pageType: string,
+  syntax: string[],
+  deprecated = false,
+) {
+  const dir = Path.join(
+    root,
+    "files/en-us/web/javascript/reference/global_objects",
+    slug.toLowerCase(),
+  );
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(
+    Path.join(dir, "index.md"),
+    `---
+title: ${slug}
+slug: Web/JavaScript/Reference/Global_Objects/${slug}
+page-type: ${pageType}
+${deprecated ? "status:\n  - deprecated\n" : ""}---
+
+## Syntax
+
+\`\`\`js-nolint
+${syntax.join("\n")}
+\`\`\`
+`,
+  );
+}
+
+test("MDN syntax forms are compared with the parameters and length", async () => {
+  const root = await fs.mkdtemp(Path.join(OS.tmpdir(), "mdn-"));
+  try {
+    await writePage(root, "Map/get", "javascript-instance-method", [
+      "get(key)",
+    ]);
+    await writePage(root, "Map/entries", "javascript-instance-method", [
+      "entries(a)",
+    ]);
+    // Forms with fewer arguments than `length` are fine
+    await writePage(
+      root,
+      "String/substr",
+      "javascript-instance-method",
+      ["substr(start)", "substr(start, length)"],
+      true,
+    );
+    // But not forms that all take more
+    await writePage(root, "Math/max", "javascript-static-method", [
+      "max(value1, value2, /* …, */ valueN)",
+    ]);
+    const report = await checkMDN(root, index);
+    assert.deepEqual(report.Map?.mismatches, [
+      {
+        path: "Map.prototype.entries",
+        slug: "Web/JavaScript/Reference/Global_Objects/Map/entries",
+        field: "parameters",
+        spec: 0,
+        mdn: 1,
+      },
+      {
+        path: "Map.prototype.entries",
+        slug: "Web/JavaScript/Reference/Global_Objects/Map/entries",
+        field: "length",
+        spec: 0,
+        mdn: 1,
+      },
+    ]);
+    assert.deepEqual(report.String?.mismatches, []);
+    assert.deepEqual(report.Math?.mismatches, [
+      {
+        path: "Math.max",
+        slug: "Web/JavaScript/Reference/Global_Objects/Math/max",
+        field: "length",
+        spec: 2,
+        mdn: 3,
+      },
+    ]);
+  } finally {
+    await fs.rm(root, { recursive: true });
+  }
+});
@@ -0,0 +1,85 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildTOC,
+  collectIntrinsics,
+  getMembers,
+  type JSGlobal,
+} from "../lib/index.js";
+import { collectAlgorithms } from "../lib/algorithms.js";
+import { getProposalIDPrefix, mergeProposal } from "../lib/proposals.js";
+import { readFixture } from "./fixtures.js";
+
+const html = readFixture("builtins.html");
+const intrinsics = collectIntrinsics(buildTOC(html), html);
+
+const proposal = `
+<emu-clause id="sec-map.groupby">
+  <h1>Map.groupBy ( _items_, _callback_ )</h1>
+  <emu-alg>1. Return ? GroupBy(_items_, _callback_).</emu-alg>
+</emu-clause>
+<emu-clause id="sec-map.prototype.get">
+  <h1>Map.prototype.get ( _key_ )</h1>
+  <emu-alg>1. Return *undefined*.</emu-alg>
+</emu-clause>
+<del>
+  <emu-clause id="sec-escape-string">
+    <h1>escape ( _string_ )</h1>
+  </emu-clause>
+</del>`;
+
+function getIDs(g: JSGlobal | undefined) {
+  assert.ok(g);
+  return Object.fromEntries(
+    getMembers(g).map(({ member }) => [member.name, member.id]),
+  );
+}
+
+test("proposal entries have prefixed IDs", () => {
+  const merged = structuredClone(intrinsics);
+  mergeProposal(merged, "grouping", proposal);
+  const ids = getIDs(merged.find((g) => g.name === "Map"));
+  assert.equal(ids["Map.groupBy()"], "proposal:grouping:sec-map.groupby");
+  // Clauses that describe existing entries are left alone
+  assert.equal(ids["Map.prototype.get()"], "sec-map.prototype.get");
+  const escape = merged.find((g) => g.name === "escape()");
+  assert.ok(escape);
+  assert.equal(escape.id, "sec-escape-string");
+  assert.equal(escape.removed, true);
+  assert.equal(escape.proposal, "grouping");
+});
+
+test("proposal entries have the steps of the proposal", () => {
+  const merged = structuredClone(intrinsics);
+  mergeProposal(merged, "grouping", proposal);
+  const algorithms = collectAlgorithms(merged, html, {
+    [getProposalIDPrefix("grouping")]: proposal,
+  });
+  assert.deepEqual(
+    algorithms["proposal:grouping:sec-map.groupby"]?.map((s) => s.text),
+    ["Return ? GroupBy(_items_, _callback_)."],
+  );
+  // Not the context that the proposal repeats
+  assert.notDeepEqual(algorithms["sec-map.prototype.get"]?.map((s) => s.text), [
+    "Return *undefined*.",
+  ]);
+});
+
+test("proposal entries have the status of their own clauses", () => {
+  const merged = structuredClone(intrinsics);
+  mergeProposal(
+    merged,
+    "legacy",
+    `<emu-clause id="sec-map.prototype.get" legacy>
+      <h1>Map.prototype.getLegacy ( _key_ )</h1>
+    </emu-clause>`,
+  );
+  const map = merged.find((g) => g.name === "Map");
+  assert.ok(map);
+  const members = getMembers(map).map(({ member }) => member);
+  const legacy = members.find((m) => m.name === "Map.prototype.getLegacy()");
+  assert.equal(legacy?.legacy, true);
+  // Not the ECMA-262 clause that happens to have the same ID
+  const get = members.find((m) => m.name === "Map.prototype.get()");
+  assert.equal(get?.legacy, undefined);
+});
@@ -0,0 +1,91 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildTOC,
+  collectIntrinsics,
+  collectWellKnownIntrinsics,
+  normalizePath,
+  resolveExtends,
+} from "../lib/index.js";
+import { createIntrinsicsIndex } from "../lib/query.js";
+import { readFixture } from "./fixtures.js";
+
+const html = readFixture("builtins.html");
+const toc = buildTOC(html);
+const intrinsics = collectIntrinsics(toc, html);
+resolveExtends(intrinsics, collectWellKnownIntrinsics(toc, html, intrinsics));
+const index = createIntrinsicsIndex(intrinsics);
+
+test("paths are normalized", () => {
+  assert.equal(normalizePath("Map.prototype.get ()"), "Map.prototype.get");
+  assert.equal(
+    normalizePath("%TypedArray%.prototype [ @@iterator ]"),
+    "TypedArray.prototype[Symbol.iterator]",
+  );
+  assert.equal(
+    normalizePath("Map.prototype[%Symbol.iterator%]"),
+    "Map.prototype[Symbol.iterator]",
+  );
+});
+
+test("members are found by any way of writing their path", () => {
+  const get = index.getMember("Map.prototype.get()");
+  assert.equal(get?.kind, "prototype");
+  assert.equal(get.owner.name, "Map");
+  assert.equal(get.member.id, "sec-map.prototype.get");
+  assert.equal(
+    index.getMember("Map.prototype[@@iterator]")?.path,
+    "Map.prototype[Symbol.iterator]",
+  );
+  assert.equal(index.getMember("String#length")?.kind, "instance");
+  assert.equal(index.getMember("Map.prototype.nope"), undefined);
+});
+
+test("globals are found by name and type", () => {
+  assert.equal(index.getGlobal("parseInt")?.name, "parseInt()");
+  assert.equal(index.getGlobal("%TypedArray%")?.name, "TypedArray");
+  assert.equal(index.getGlobal("Map", "class")?.name, "Map");
+  assert.equal(index.getGlobal("Map", "namespace"), undefined);
+});
+
+test("entries are found by ID", () => {
+  // Each TypedArray constructor has the members of _TypedArray_
+  const paths = index
+    .getByID("sec-typedarray.bytes_per_element")
+    .map((e) => ("member" in e ? e.path : e.name));
+  assert.deepEqual(paths, [
+    "Int8Array.BYTES_PER_ELEMENT",
+    "Uint8Array.BYTES_PER_ELEMENT",
+  ]);
+  assert.deepEqual(index.getByID("nope"), []);
+});
+
+test("globals and members are filtered by flags", () => {
+  assert.deepEqual(
+    index.globals({ annexB: true }).map((g) => g.name),
+    ["escape()"],
+  );
+  assert.ok(
+    index.globals({ global: false }).every((g) => g.type !== "global-property"),
+  );
+  const statics = index.members({ kind: "static", global: true });
+  assert.ok(statics.length > 0);
+  assert.ok(statics.every((e) => e.kind === "static" && e.owner.global));
+  assert.ok(
+    index
+      .members({ annexB: false })
+      .every((e) => e.path !== "String.prototype.substr"),
+  );
+});
+
+test("extends chains are followed up to the root", () => {
+  assert.deepEqual(
+    index.getExtendsChain("Uint8Array").map((c) => c.name),
+    ["TypedArray"],
+  );
+  assert.deepEqual(
+    index.getExtendsChain("RangeError").map((c) => c.name),
+    ["Error"],
+  );
+  assert.deepEqual(index.getExtendsChain("Map"), []);
+});
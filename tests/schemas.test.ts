@@ -0,0 +1,89 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildTOC, collectIntrinsics } from "../lib/index.js";
+import { collectAbstractOperations } from "../lib/abstract-operations.js";
+import { mergeEditions } from "../lib/editions.js";
+import {
+  formatVersion,
+  parseVersioned,
+  serializeVersioned,
+} from "../lib/schemas.js";
+import { collectWellKnownIntrinsics } from "../lib/well-known-intrinsics.js";
+import { readFixture } from "./fixtures.js";
+
+const html = readFixture("builtins.html");
+const toc = buildTOC(html);
+const intrinsics = collectIntrinsics(toc, html);
+
+test("scraped files match their schemas", async () => {
+  const files = {
+    "intrinsics.json": intrinsics,
+    "abstract-operations.json": collectAbstractOperations(html),
+    "well-known-intrinsics.json": collectWellKnownIntrinsics(
+      toc,
+      html,
+      intrinsics,
+    ),
+    "intrinsics-history.json": mergeEditions([{ name: "ES2024", intrinsics }]),
+  } as const;
+  for (const [file, data] of Object.entries(files)) {
+    const name = file as keyof typeof files;
+    assert.deepEqual(
+      await parseVersioned(name, serializeVersioned(name, data)),
+      JSON.parse(JSON.stringify(data)),
+      file,
+    );
+  }
+});
+
+test("mismatches are reported with their path", async () => {
+  const wellKnownIntrinsics = collectWellKnownIntrinsics(toc, html, intrinsics);
+  const text = serializeVersioned("well-known-intrinsics.json", [
+    { ...wellKnownIntrinsics[0], name: 42 },
+  ]);
+  await assert.rejects(parseVersioned("well-known-intrinsics.json", text), {
+    message:
+      "well-known-intrinsics.json does not match well-known-intrinsics.schema.json:\n  /data/0/name: expected string, got number",
+  });
+  const [operation] = collectAbstractOperations(html);
+  await assert.rejects(
+    parseVersioned(
+      "abstract-operations.json",
+      serializeVersioned("abstract-operations.json", [
+        { ...operation, type: "macro" },
+      ]),
+    ),
+    {
+      message:
+        /^abstract-operations\.json does not match abstract-operations\.schema\.json:\n {2}\/data\/0\/type: expected one of /u,
+    },
+  );
+  const [global] = mergeEditions([{ name: "ES2024", intrinsics }]);
+  await assert.rejects(
+    parseVersioned(
+      "intrinsics-history.json",
+      serializeVersioned("intrinsics-history.json", [{ ...global, since: 1 }]),
+    ),
+    { message: /\n {2}\/data\/0\/since: expected string, got number$/u },
+  );
+});
+
+test("files without the current format version are rejected", async () => {
+  await assert.rejects(parseVersioned("abstract-operations.json", "[]"), {
+    message: /^abstract-operations\.json has no format version\./u,
+  });
+  await assert.rejects(
+    parseVersioned(
+      "intrinsics-history.json",
+      JSON.stringify({ formatVersion: formatVersion - 1, data: [] }),
+    ),
+    {
+      message: new RegExp(
+        `^intrinsics-history\\.json has format version ${
+          formatVersion - 1
+        }, but this version of es-scraper reads version ${formatVersion};`,
+        "u",
+      ),
+    },
+  );
+});
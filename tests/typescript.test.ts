@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildTOC, collectIntrinsics } from "../lib/index.js";
+import { mergeIntl } from "../lib/intl.js";
+import { createIntrinsicsIndex } from "../lib/query.js";
+import { checkTypeScript } from "../lib/typescript.js";
+import { readFixture } from "./fixtures.js";
+
+const html = readFixture("builtins.html");
+const intrinsics = collectIntrinsics(buildTOC(html), html);
+mergeIntl(intrinsics, readFixture("intl.html"));
+const report = await checkTypeScript(createIntrinsicsIndex(intrinsics));
+
+test("members are compared with the declarations", () => {
+  const map = report.Map;
+  assert.ok(map);
+  assert.deepEqual(map.undeclared, []);
+  assert.ok(map.unspecified.includes("prototype.set"));
+  // Annex B's substr takes `length`, which TypeScript makes optional
+  assert.deepEqual(report.String?.arity, [
+    {
+      member: "substr",
+      spec: { min: 2, max: 2 },
+      typescript: { min: 1, max: 2 },
+    },
+  ]);
+});
+
+test("classes of the Intl namespace are compared", () => {
+  assert.deepEqual(report["Intl.Collator"]?.undeclared, []);
+  assert.ok(report["Intl.Collator"].unspecified.includes("prototype.compare"));
+  assert.deepEqual(report["Intl.Locale"]?.undeclared, []);
+  assert.ok(report["Intl.Locale"].unspecified.includes("prototype.minimize"));
+  // But not as members of the namespace
+  assert.ok(!report.Intl?.unspecified.includes("Collator"));
+  assert.ok(report.Intl?.unspecified.includes("DateTimeFormat"));
+});